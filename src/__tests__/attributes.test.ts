@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { initTelemetry } from '../init';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { withFetchTelemetry } from '../fetch';
+import { createAttributeSetters, MAX_ATTRIBUTES, MAX_ATTRIBUTE_VALUE_LENGTH } from '../attributes';
+
+describe('createAttributeSetters', () => {
+  it('stringifies values and stores tags under tag.', () => {
+    const attributes: Record<string, string> = {};
+    const { setAttribute, addTags } = createAttributeSetters(attributes);
+
+    setAttribute('provider', 'apollo');
+    setAttribute('result_count', 12);
+    setAttribute('cache_hit', false);
+    addTags('beta', 'bulk');
+
+    expect(attributes).toEqual({
+      provider: 'apollo',
+      result_count: '12',
+      cache_hit: 'false',
+      'tag.beta': 'true',
+      'tag.bulk': 'true',
+    });
+  });
+
+  it('caps the number of attributes and the value length', () => {
+    const attributes: Record<string, string> = {};
+    const { setAttribute } = createAttributeSetters(attributes);
+
+    for (let i = 0; i < MAX_ATTRIBUTES + 5; i++) setAttribute(`key${i}`, i);
+    setAttribute('key0', 'x'.repeat(MAX_ATTRIBUTE_VALUE_LENGTH + 10));
+    setAttribute('', 'empty');
+
+    expect(Object.keys(attributes)).toHaveLength(MAX_ATTRIBUTES);
+    expect(attributes.key0).toHaveLength(MAX_ATTRIBUTE_VALUE_LENGTH);
+    expect(attributes).not.toHaveProperty(`key${MAX_ATTRIBUTES}`);
+  });
+});
+
+describe('ctx.setAttribute', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+  });
+
+  it('records attributes on the row', async () => {
+    initTelemetry({ sink });
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      ctx.setAttribute('model', 'gpt-5');
+      ctx.addTags('cache-hit');
+      return Response.json({ ok: true });
+    });
+
+    await (await handler(new Request('https://api.example.com/api/chat'))).text();
+    await Promise.resolve();
+
+    expect(sink.rows.mcp_resource_invocations[0].attributes).toEqual({
+      model: 'gpt-5',
+      'tag.cache-hit': 'true',
+    });
+  });
+
+  it('runs attribute values through the redaction scrubbers', async () => {
+    initTelemetry({ sink, redact: { scrub: ['emails'] } });
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      ctx.setAttribute('contact', 'jane@example.com');
+      return new Response('ok');
+    });
+
+    await (await handler(new Request('https://api.example.com/api/contact'))).text();
+    await Promise.resolve();
+
+    expect(sink.rows.mcp_resource_invocations[0].attributes.contact).not.toContain('jane');
+  });
+});
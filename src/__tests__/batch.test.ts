@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createBatchingSink } from '../batch';
+import { createMemorySink } from '../sinks';
+import type { McpResourceInvocation, TelemetrySink } from '../types';
+
+function row(id: string): McpResourceInvocation {
+  return { id, route: '/api/test' } as McpResourceInvocation;
+}
+
+describe('createBatchingSink', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('buffers rows until flush() and writes them in one batch', async () => {
+    const memory = createMemorySink();
+    const writeSpy = vi.spyOn(memory, 'write');
+    const sink = createBatchingSink(memory);
+
+    await sink.write('mcp_resource_invocations', [row('a')]);
+    await sink.write('mcp_resource_invocations', [row('b')]);
+    expect(writeSpy).not.toHaveBeenCalled();
+
+    await sink.flush();
+    expect(writeSpy).toHaveBeenCalledOnce();
+    expect(memory.rows.mcp_resource_invocations.map((r) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('writes as soon as maxRows is reached', async () => {
+    const memory = createMemorySink();
+    const sink = createBatchingSink(memory, { maxRows: 2 });
+
+    await sink.write('mcp_resource_invocations', [row('a'), row('b'), row('c')]);
+    await sink.flush();
+
+    expect(memory.rows.mcp_resource_invocations).toHaveLength(3);
+  });
+
+  it('writes as soon as maxBytes is reached', async () => {
+    const memory = createMemorySink();
+    const sink = createBatchingSink(memory, { maxBytes: 10 });
+
+    await sink.write('mcp_resource_invocations', [row('a')]);
+    await Promise.resolve();
+
+    expect(memory.rows.mcp_resource_invocations).toHaveLength(1);
+  });
+
+  it('counts maxBytes in UTF-8 bytes, not characters', async () => {
+    const memory = createMemorySink();
+    const wide = { ...row('a'), response_body: '€'.repeat(100) };
+    // 100 more characters than the row's JSON, but 200 fewer than its bytes
+    const sink = createBatchingSink(memory, { maxBytes: JSON.stringify(wide).length + 100 });
+
+    await sink.write('mcp_resource_invocations', [wide]);
+    await Promise.resolve();
+
+    expect(memory.rows.mcp_resource_invocations).toHaveLength(1);
+  });
+
+  it('writes after maxAgeMs without an explicit flush', async () => {
+    vi.useFakeTimers();
+    const memory = createMemorySink();
+    const sink = createBatchingSink(memory, { maxAgeMs: 50 });
+
+    await sink.write('mcp_resource_invocations', [row('a')]);
+    expect(memory.rows.mcp_resource_invocations).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(memory.rows.mcp_resource_invocations).toHaveLength(1);
+  });
+
+  it('logs a failed batch write instead of rejecting flush()', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing: TelemetrySink = { write: () => Promise.reject(new Error('down')) };
+    const sink = createBatchingSink(failing);
+
+    await sink.write('mcp_resource_invocations', [row('a')]);
+    await expect(sink.flush()).resolves.toBeUndefined();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[telemetry] Batch write of 1 rows to mcp_resource_invocations failed:',
+      'down',
+    );
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { captureBody, captureText, isTextContentType } from '../body-capture';
+
+describe('isTextContentType', () => {
+  it('treats JSON, text and missing types as text', () => {
+    expect(isTextContentType('application/json; charset=utf-8')).toBe(true);
+    expect(isTextContentType('application/vnd.api+json')).toBe(true);
+    expect(isTextContentType('text/event-stream')).toBe(true);
+    expect(isTextContentType(null)).toBe(true);
+  });
+
+  it('treats images and octet streams as binary', () => {
+    expect(isTextContentType('image/png')).toBe(false);
+    expect(isTextContentType('application/octet-stream')).toBe(false);
+    expect(isTextContentType('application/pdf')).toBe(false);
+  });
+});
+
+describe('captureBody', () => {
+  it('keeps small text bodies whole', async () => {
+    const response = new Response('{"ok":true}');
+    const captured = await captureBody(response, 'application/json', 1024);
+
+    expect(captured).toEqual({ text: '{"ok":true}', size: 11, truncated: false, sha256: null });
+    // The original body is untouched
+    expect(await response.text()).toBe('{"ok":true}');
+  });
+
+  it('truncates text past the limit, with no size when there is no Content-Length', async () => {
+    const captured = await captureBody(new Response('x'.repeat(5000)), 'text/plain', 100);
+
+    expect(captured?.text).toBe('x'.repeat(100));
+    expect(captured?.size).toBeNull();
+    expect(captured?.truncated).toBe(true);
+  });
+
+  it('stops reading past the limit and takes the size from Content-Length', async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new TextEncoder().encode('x'.repeat(100)));
+      },
+    });
+    const response = new Response(body, { headers: { 'content-length': '100000' } });
+
+    const captured = await captureBody(response, 'text/plain', 150);
+
+    expect(captured).toEqual({
+      text: 'x'.repeat(150),
+      size: 100_000,
+      truncated: true,
+      sha256: null,
+    });
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it('records size and digest instead of binary content', async () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+    const captured = await captureBody(new Response(bytes), 'image/png', 1024);
+
+    expect(captured).toEqual({
+      text: null,
+      size: 6,
+      truncated: false,
+      sha256: createHash('sha256').update(bytes).digest('hex'),
+    });
+  });
+
+  it('returns null for empty bodies', async () => {
+    expect(await captureBody(new Response(null), null, 1024)).toBeNull();
+    expect(await captureBody(new Response(''), 'text/plain', 1024)).toBeNull();
+  });
+});
+
+describe('captureText', () => {
+  it('cuts on bytes, not characters', () => {
+    const captured = captureText('€€€', 6);
+    expect(captured).toEqual({ text: '€€', size: 9, truncated: true, sha256: null });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockPing = vi.fn();
+const mockQuery = vi.fn();
+const mockCommand = vi.fn().mockResolvedValue(undefined);
+const mockInsert = vi.fn().mockResolvedValue(undefined);
+
+vi.mock('@clickhouse/client', () => ({
+  createClient: vi.fn(() => ({
+    ping: mockPing,
+    query: mockQuery,
+    command: mockCommand,
+    insert: mockInsert,
+    close: vi.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+import { runCli, type CliIo } from '../cli';
+import { SCHEMA_VERSION } from '../schema';
+
+function io(env: Record<string, string> = { TELEM_CLICKHOUSE_URL: 'http://localhost:8123' }) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const cliIo: CliIo = {
+    env,
+    stdout: (line) => out.push(line),
+    stderr: (line) => err.push(line),
+  };
+  return { cliIo, out, err };
+}
+
+describe('runCli', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('prints usage for --help without needing env', async () => {
+    const { cliIo, out } = io({});
+    expect(await runCli(['--help'], cliIo)).toBe(0);
+    expect(out[0]).toContain('Usage: agentcash-telemetry');
+  });
+
+  it('fails when TELEM_CLICKHOUSE_URL is missing', async () => {
+    const { cliIo, err } = io({});
+    expect(await runCli(['ping'], cliIo)).toBe(2);
+    expect(err).toEqual(['TELEM_CLICKHOUSE_URL is not set.']);
+  });
+
+  it('rejects unknown commands', async () => {
+    const { cliIo, err } = io();
+    expect(await runCli(['frobnicate'], cliIo)).toBe(2);
+    expect(err[0]).toBe('Unknown command: frobnicate');
+  });
+
+  it('ping reports reachability', async () => {
+    mockPing.mockResolvedValue({ success: true });
+    const { cliIo, out } = io();
+    expect(await runCli(['ping'], cliIo)).toBe(0);
+    expect(out).toEqual(['ClickHouse reachable at http://localhost:8123']);
+
+    mockPing.mockResolvedValue({ success: false });
+    expect(await runCli(['ping'], io().cliIo)).toBe(1);
+  });
+
+  it('migrate applies pending migrations', async () => {
+    mockQuery.mockResolvedValue({ json: async () => [{ version: SCHEMA_VERSION }] });
+    const { cliIo, out } = io();
+    expect(await runCli(['migrate'], cliIo)).toBe(0);
+    expect(out).toEqual([`Schema is up to date (v${SCHEMA_VERSION})`]);
+  });
+
+  it('schema diff exits non-zero on drift', async () => {
+    mockQuery.mockResolvedValue({ json: async () => [] });
+    const { cliIo, err } = io();
+    expect(await runCli(['schema', 'diff'], cliIo)).toBe(1);
+    expect(err[0]).toContain('mcp_resource_invocations: table missing');
+  });
+
+  it('tail prints new rows once and passes filters as query params', async () => {
+    const row = {
+      id: 'a',
+      created_at: '2026-01-01 00:00:00.000',
+      method: 'POST',
+      route: '/api/search',
+      status_code: 200,
+      duration: 12,
+      x_wallet_address: '0xabc',
+      verified_wallet_address: null,
+      x_client_id: 'poncho',
+    };
+    mockQuery
+      .mockResolvedValueOnce({ json: async () => [row] })
+      .mockResolvedValue({ json: async () => [] });
+    const controller = new AbortController();
+    const { cliIo, out } = io();
+    cliIo.signal = controller.signal;
+
+    const tail = runCli(
+      ['tail', '--route', '/api/*', '--wallet', '0xABC', '--interval', '1'],
+      cliIo,
+    );
+    await vi.waitFor(() => expect(mockQuery.mock.calls.length).toBeGreaterThanOrEqual(2));
+    controller.abort();
+    expect(await tail).toBe(0);
+
+    expect(out).toEqual(['2026-01-01 00:00:00.000  POST  /api/search  200  12ms  0xabc  poncho']);
+    expect(mockQuery.mock.calls[0][0].query_params).toEqual({
+      since: 5,
+      route: '/api/%',
+      wallet: '0xabc',
+    });
+    expect(mockQuery.mock.calls[1][0].query_params).toMatchObject({
+      cursor: row.created_at,
+      cursorId: 'a',
+    });
+  });
+
+  it('tail rejects an invalid --since or --interval', async () => {
+    const { cliIo, err } = io();
+
+    expect(await runCli(['tail', '--since', 'abc'], cliIo)).toBe(2);
+    expect(await runCli(['tail', '--interval', '0'], cliIo)).toBe(2);
+
+    expect(err).toEqual([
+      '--since must be a whole number of minutes, got "abc"',
+      '--interval must be a whole number of milliseconds of at least 1, got "0"',
+    ]);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('replay needs a spool directory', async () => {
+    const { cliIo, err } = io();
+    expect(await runCli(['replay'], cliIo)).toBe(2);
+    expect(err).toEqual(['replay needs --dir or TELEM_SPOOL_DIR.']);
+  });
+});
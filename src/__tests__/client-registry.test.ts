@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildClientRegistry, classifyClient } from '../client-registry';
+
+const base = { clientId: null, origin: 'https://enrichx402.com', referer: null };
+
+describe('classifyClient', () => {
+  it('labels registered client ids', () => {
+    expect(classifyClient({ ...base, clientId: 'poncho' })).toBe('Poncho');
+    expect(classifyClient({ ...base, clientId: 'x402scan-mcp' })).toBe('MCP');
+    expect(classifyClient({ ...base, clientId: 'stablestudio-web' })).toBe('StableStudio');
+    expect(classifyClient({ ...base, clientId: 'x402scan-web' })).toBe('x402scan Web');
+  });
+
+  it('falls back to the historical heuristics', () => {
+    expect(
+      classifyClient({ ...base, clientId: '0xAbCdEf1234567890AbCdEf1234567890AbCdEf12' }),
+    ).toBe('MCP');
+    expect(classifyClient({ ...base, referer: 'x402scan-mcp/1.2.0' })).toBe('MCP');
+    expect(classifyClient({ ...base, origin: 'https://stablestudio.io' })).toBe('StableStudio');
+  });
+
+  it('buckets unregistered and missing ids as Unknown', () => {
+    expect(classifyClient(base)).toBe('Unknown');
+    expect(classifyClient({ ...base, clientId: 'undefined' })).toBe('Unknown');
+    expect(classifyClient({ ...base, clientId: 'toString' })).toBe('Unknown');
+  });
+
+  it('uses app-registered clients merged over the defaults', () => {
+    const registry = buildClientRegistry({ 'partner-acme-bot': 'Acme' });
+    expect(classifyClient({ ...base, clientId: 'partner-acme-bot' }, registry)).toBe('Acme');
+    expect(classifyClient({ ...base, clientId: 'poncho' }, registry)).toBe('Poncho');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const afterCallbacks: Array<() => unknown> = [];
+
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: (callback: () => unknown) => {
+    afterCallbacks.push(callback);
+  },
+}));
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initTelemetry } from '../init';
+import { createTelemetry } from '../create-telemetry';
+import { withTelemetry } from '../telemetry';
+import { createMemorySink, type MemorySink } from '../sinks';
+import type { TelemetrySink } from '../types';
+
+async function runAfterCallbacks() {
+  await Promise.all(afterCallbacks.splice(0).map((callback) => callback()));
+}
+
+function request(path: string) {
+  return new NextRequest(`https://internal.example.com${path}`, {
+    headers: { 'X-Client-ID': 'my-agent' },
+  });
+}
+
+const ok = async () => NextResponse.json({ ok: true });
+
+describe('createTelemetry', () => {
+  let defaultSink: MemorySink;
+
+  beforeEach(() => {
+    afterCallbacks.length = 0;
+    defaultSink = createMemorySink();
+    initTelemetry({ sink: defaultSink });
+  });
+
+  it('records through its own sink and settings, leaving the default untouched', async () => {
+    const sink = createMemorySink();
+    const telemetry = createTelemetry({
+      sink,
+      origin: 'https://a.example.com',
+      clients: { 'my-agent': 'agent' },
+    });
+
+    await (await telemetry.withTelemetry(ok)(request('/api/a'))).text();
+    await runAfterCallbacks();
+
+    const [row] = sink.rows.mcp_resource_invocations;
+    expect(row.origin).toBe('https://a.example.com');
+    expect(row.client_type).toBe('agent');
+    expect(defaultSink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+
+  it('keeps two instances apart', async () => {
+    const first = createMemorySink();
+    const second = createMemorySink();
+    const a = createTelemetry({ sink: first, origin: 'https://a.example.com' });
+    const b = createTelemetry({ sink: second, origin: 'https://b.example.com' });
+
+    await (await a.withTelemetry(ok)(request('/api/a'))).text();
+    await (await withTelemetry(ok, { telemetry: b })(request('/api/b'))).text();
+    await runAfterCallbacks();
+
+    expect(first.rows.mcp_resource_invocations.map((row) => row.origin)).toEqual([
+      'https://a.example.com',
+    ]);
+    expect(second.rows.mcp_resource_invocations.map((row) => row.origin)).toEqual([
+      'https://b.example.com',
+    ]);
+  });
+
+  it('is not changed by a later initTelemetry call', async () => {
+    const sink = createMemorySink();
+    const telemetry = createTelemetry({ sink, origin: 'https://a.example.com' });
+    initTelemetry({ sink: createMemorySink(), origin: 'https://default.example.com' });
+
+    await (await telemetry.withTelemetry(ok)(request('/api/a'))).text();
+    await runAfterCallbacks();
+
+    expect(sink.rows.mcp_resource_invocations[0].origin).toBe('https://a.example.com');
+  });
+
+  it('builds plugins that share the instance sink', () => {
+    const sink = createMemorySink();
+    const plugin = createTelemetry({ sink }).createPlugin();
+
+    const ctx = plugin.onRequest!({
+      requestId: 'req-1',
+      method: 'GET',
+      route: '/api/search',
+      origin: 'https://example.com',
+      referer: null,
+      walletAddress: null,
+      clientId: null,
+      sessionId: null,
+      contentType: null,
+      headers: {},
+      startTime: Date.now(),
+    });
+    plugin.onResponse!(ctx, {
+      statusCode: 200,
+      statusText: 'OK',
+      duration: 5,
+      contentType: 'application/json',
+      headers: {},
+    });
+
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(1);
+    expect(defaultSink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+
+  it('binds the route builder to the instance', async () => {
+    const sink = createMemorySink();
+    const telemetry = createTelemetry({ sink, origin: 'https://a.example.com' });
+
+    const handler = telemetry.createRouteBuilder().handler(async () => ({ success: true }));
+    await handler(request('/api/built'));
+    await runAfterCallbacks();
+
+    expect(sink.rows.mcp_resource_invocations.map((row) => row.route)).toEqual(['/api/built']);
+    expect(defaultSink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+
+  it('flushes only its own pending writes', async () => {
+    const stalled: TelemetrySink = { write: () => new Promise(() => {}) };
+    const slow = createTelemetry({ sink: stalled });
+    const sink = createMemorySink();
+    const fast = createTelemetry({ sink });
+
+    await (await slow.withTelemetry(ok)(request('/api/slow'))).text();
+    await (await fast.withTelemetry(ok)(request('/api/fast'))).text();
+    // The stalled write never settles, so start the deferred inserts without awaiting them
+    void runAfterCallbacks();
+
+    await expect(fast.flush()).resolves.toBeUndefined();
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(1);
+  });
+});
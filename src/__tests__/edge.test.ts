@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// Body capture as the edge bundle builds it
+vi.mock('crypto', () => import('../edge-crypto'));
+
+import { createHash, randomUUID } from '../edge-crypto';
+import { captureBody } from '../body-capture';
+import { createClient } from '../edge-clickhouse';
+import { createSpoolingSink, replaySpool } from '../edge-spool';
+import { createMemorySink } from '../sinks';
+
+describe('edge crypto', () => {
+  it('has no createHash', () => {
+    expect(() => createHash('sha256')).toThrow('not available on the edge runtime');
+  });
+
+  it('records binary bodies by size, without a digest', async () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    expect(await captureBody(new Response(bytes), 'image/png', 1024)).toEqual({
+      text: null,
+      size: 4,
+      truncated: false,
+      sha256: null,
+    });
+  });
+
+  it('generates v4 UUIDs with Web Crypto', () => {
+    expect(randomUUID()).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+  });
+});
+
+describe('edge ClickHouse client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(body = '') {
+    const calls: Array<{ url: URL; init: RequestInit }> = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        calls.push({ url: new URL(url), init });
+        return new Response(body);
+      }),
+    );
+    return calls;
+  }
+
+  const client = () =>
+    createClient({
+      url: 'http://ch.local:8123/',
+      database: 'telemetry',
+      username: 'writer',
+      password: 'secret',
+    });
+
+  it('inserts rows as JSONEachRow over HTTP', async () => {
+    const calls = stubFetch();
+    await client().insert({
+      table: 'mcp_resource_invocations',
+      values: [{ id: 'a' }, { id: 'b' }],
+      format: 'JSONEachRow',
+    });
+
+    const [{ url, init }] = calls;
+    expect(url.origin).toBe('http://ch.local:8123');
+    expect(url.searchParams.get('query')).toBe(
+      'INSERT INTO mcp_resource_invocations FORMAT JSONEachRow',
+    );
+    expect(url.searchParams.get('database')).toBe('telemetry');
+    expect(init.body).toBe('{"id":"a"}\n{"id":"b"}');
+    expect(init.headers).toMatchObject({
+      'X-ClickHouse-User': 'writer',
+      'X-ClickHouse-Key': 'secret',
+    });
+  });
+
+  it('sends query parameters and parses JSONEachRow results', async () => {
+    const calls = stubFetch('{"name":"id"}\n{"name":"route"}\n');
+    const result = await client().query({
+      query: 'SELECT name FROM system.columns WHERE table IN ({tables:Array(String)})',
+      query_params: { tables: ["it's", 'b'] },
+      format: 'JSONEachRow',
+    });
+
+    expect(await result.json<{ name: string }>()).toEqual([{ name: 'id' }, { name: 'route' }]);
+    expect(calls[0].url.searchParams.get('param_tables')).toBe("['it\\'s','b']");
+    expect(calls[0].init.body).toMatch(/FORMAT JSONEachRow$/);
+  });
+
+  it('rejects with the server error on a failed request', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('Code: 60. Table does not exist\n', { status: 404 })),
+    );
+    await expect(client().command({ query: 'SELECT 1' })).rejects.toThrow(
+      'ClickHouse HTTP 404: Code: 60. Table does not exist',
+    );
+  });
+});
+
+describe('edge spool', () => {
+  it('writes straight through to the sink', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const inner = createMemorySink();
+    const sink = createSpoolingSink(inner, { dir: '/tmp/spool' });
+    await sink.write('router_events', []);
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(await replaySpool()).toEqual({ replayed: 0, failedFiles: 0 });
+    warn.mockRestore();
+  });
+});
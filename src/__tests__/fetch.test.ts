@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { initTelemetry } from '../init';
+import { createTelemetryInstance } from '../instance';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { withFetchTelemetry } from '../fetch';
+
+function request(path: string, init?: RequestInit) {
+  return new Request(`https://api.example.com${path}`, init);
+}
+
+/** A body of `count` 100-byte chunks, produced on demand; `pulled()` counts them. */
+function lazyBody(count: number, byte: number) {
+  let pulled = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled === count) return controller.close();
+      pulled++;
+      controller.enqueue(new Uint8Array(100).fill(byte));
+    },
+  });
+  return { body, pulled: () => pulled };
+}
+
+describe('withFetchTelemetry', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+  });
+
+  it('records a row for a standard Request/Response handler', async () => {
+    const handler = withFetchTelemetry(async (req, ctx) => {
+      ctx.setVerifiedWallet('0xABC');
+      return Response.json({ echo: await req.json() });
+    });
+
+    const response = await handler(
+      request('/api/echo', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'X-Client-ID': 'poncho' },
+        body: JSON.stringify({ q: 'hi' }),
+      }),
+    );
+    await Promise.resolve();
+
+    expect(await response.json()).toEqual({ echo: { q: 'hi' } });
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      route: '/api/echo',
+      origin: 'https://api.example.com',
+      method: 'POST',
+      client_type: 'Poncho',
+      verified_wallet_address: '0xabc',
+      request_body: '{"q":"hi"}',
+      response_body: '{"echo":{"q":"hi"}}',
+      status_code: 200,
+    });
+  });
+
+  it('reads no more than maxBodyBytes up front and observes the rest as it is sent', async () => {
+    initTelemetry({ sink, maxBodyBytes: 150 });
+    const { body, pulled } = lazyBody(10, 0x78);
+    const handler = withFetchTelemetry(async () => new Response(body));
+
+    const response = await handler(request('/api/large'));
+    expect(pulled()).toBeLessThan(10);
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+
+    expect(await response.text()).toBe('x'.repeat(1000));
+    await vi.waitFor(() => expect(sink.rows.mcp_resource_invocations).toHaveLength(1));
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      response_body: 'x'.repeat(150),
+      response_body_size: 1000,
+      response_body_truncated: true,
+      stream_status: null,
+    });
+  });
+
+  it('digests large binary responses as they are sent', async () => {
+    initTelemetry({ sink, maxBodyBytes: 150 });
+    const { body } = lazyBody(10, 0xff);
+    const handler = withFetchTelemetry(
+      async () => new Response(body, { headers: { 'content-type': 'image/png' } }),
+    );
+
+    const response = await handler(request('/api/image'));
+    expect((await response.arrayBuffer()).byteLength).toBe(1000);
+
+    await vi.waitFor(() => expect(sink.rows.mcp_resource_invocations).toHaveLength(1));
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      response_body: null,
+      response_body_size: 1000,
+      response_body_sha256: createHash('sha256')
+        .update(new Uint8Array(1000).fill(0xff))
+        .digest('hex'),
+    });
+  });
+
+  it('hands the insert and extra handler arguments to defer', async () => {
+    const tasks: Array<() => Promise<void>> = [];
+    const executionCtx = { waitUntil: (task: Promise<void>) => task };
+    const handler = withFetchTelemetry(
+      async (_req, _ctx, env: { name: string }, _executionCtx: typeof executionCtx) =>
+        new Response(env.name),
+      {
+        defer: (task, _env, ctx) => {
+          tasks.push(task);
+          ctx.waitUntil(Promise.resolve());
+        },
+      },
+    );
+
+    const response = await handler(request('/api/env'), { name: 'prod' }, executionCtx);
+    expect(await response.text()).toBe('prod');
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+
+    await Promise.all(tasks.map((task) => task()));
+    expect(sink.rows.mcp_resource_invocations[0].response_body).toBe('prod');
+  });
+
+  it('records thrown errors as 500s and re-throws them', async () => {
+    const handler = withFetchTelemetry(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(handler(request('/api/fail'))).rejects.toThrow('boom');
+    await Promise.resolve();
+    expect(sink.rows.mcp_resource_invocations[0].status_code).toBe(500);
+  });
+
+  it('records through a telemetry instance', async () => {
+    const instanceSink = createMemorySink();
+    const telemetry = createTelemetryInstance({ sink: instanceSink });
+    const handler = withFetchTelemetry(async () => new Response('ok'), { telemetry });
+
+    await (await handler(request('/api/instance'))).text();
+    await Promise.resolve();
+
+    expect(instanceSink.rows.mcp_resource_invocations).toHaveLength(1);
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { identityConfidence, reportIdentityMismatch, validateIdentityHeaders } from '../identity';
+import type { McpResourceInvocation } from '../types';
+
+describe('identityConfidence', () => {
+  it.each([
+    ['0xabc', '0xabc', 'verified-match'],
+    ['0xABC', '0xabc', 'verified-match'],
+    ['0xabc', '0xdef', 'verified-mismatch'],
+    [null, '0xdef', 'verified-only'],
+    ['0xabc', null, 'claimed-only'],
+    [null, null, 'anonymous'],
+  ] as const)('claimed %s, verified %s → %s', (claimed, verified, expected) => {
+    expect(identityConfidence(claimed, verified)).toBe(expected);
+  });
+});
+
+describe('reportIdentityMismatch', () => {
+  const row = {
+    id: 'req-1',
+    route: '/api/search',
+    x_wallet_address: '0xabc',
+    verified_wallet_address: '0xdef',
+    x_client_id: 'poncho',
+    identity_confidence: 'verified-mismatch',
+  } as McpResourceInvocation;
+
+  it('calls back only for mismatches', () => {
+    const callback = vi.fn();
+    reportIdentityMismatch(row, callback);
+    reportIdentityMismatch({ ...row, identity_confidence: 'verified-match' }, callback);
+
+    expect(callback).toHaveBeenCalledOnce();
+    expect(callback).toHaveBeenCalledWith({
+      requestId: 'req-1',
+      route: '/api/search',
+      claimedWallet: '0xabc',
+      verifiedWallet: '0xdef',
+      clientId: 'poncho',
+    });
+  });
+
+  it('logs instead of throwing when the callback fails', () => {
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() =>
+      reportIdentityMismatch(row, () => {
+        throw new Error('boom');
+      }),
+    ).not.toThrow();
+    expect(spy).toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('validateIdentityHeaders', () => {
+  const registry = { poncho: 'Poncho' };
+  const valid = {
+    walletAddress: '0x' + 'ab'.repeat(20),
+    clientId: 'poncho',
+    sessionId: 'chat-1',
+  };
+
+  it('accepts conforming headers, and unknown as an unregistered client', () => {
+    expect(validateIdentityHeaders(valid, registry)).toEqual([]);
+    expect(validateIdentityHeaders({ ...valid, clientId: 'unknown' }, registry)).toEqual([]);
+    expect(validateIdentityHeaders({ ...valid, sessionId: null }, registry)).toEqual([]);
+  });
+
+  it('flags missing required headers', () => {
+    expect(
+      validateIdentityHeaders({ walletAddress: null, clientId: null, sessionId: null }, registry),
+    ).toEqual(['wallet-address-missing', 'client-id-missing']);
+  });
+
+  it('flags malformed wallet addresses', () => {
+    const check = (walletAddress: string) =>
+      validateIdentityHeaders({ ...valid, walletAddress }, registry);
+    expect(check('0x123')).toEqual(['wallet-address-invalid']);
+    expect(check('0x' + 'AB'.repeat(20))).toEqual(['wallet-address-not-lowercase']);
+    expect(check('undefined')).toEqual(['wallet-address-placeholder']);
+  });
+
+  it('flags unregistered and placeholder client IDs', () => {
+    expect(validateIdentityHeaders({ ...valid, clientId: 'my-bot' }, registry)).toEqual([
+      'client-id-unregistered',
+    ]);
+    expect(validateIdentityHeaders({ ...valid, clientId: 'undefined' }, registry)).toEqual([
+      'client-id-placeholder',
+    ]);
+  });
+
+  it('flags session IDs over 128 chars', () => {
+    expect(validateIdentityHeaders({ ...valid, sessionId: 'x'.repeat(129) }, registry)).toEqual([
+      'session-id-too-long',
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { initTelemetry } from '../init';
+import { createTelemetryInstance } from '../instance';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { extractRequestMeta } from '../telemetry-core';
+import { createMcpTelemetry, type McpRequest } from '../mcp';
+
+const initialize = {
+  jsonrpc: '2.0' as const,
+  id: 0,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', clientInfo: { name: 'cursor', version: '1.2.0' } },
+};
+
+describe('createMcpTelemetry', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+  });
+
+  it('records tools/call with the tool as route and the host from initialize', async () => {
+    const mcp = createMcpTelemetry({ origin: 'mcp://search' });
+    const dispatch = mcp.wrap(async (message: McpRequest & { jsonrpc: '2.0'; id: number }) => ({
+      jsonrpc: '2.0',
+      id: message.id,
+      result: message.method === 'tools/call' ? { content: [{ type: 'text', text: 'ok' }] } : {},
+    }));
+
+    await dispatch(initialize, undefined);
+    await dispatch(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name: 'search', arguments: { q: 'hi' } },
+      },
+      undefined,
+    );
+
+    expect(mcp.host).toBe('cursor');
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(1);
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      method: 'tools/call',
+      route: 'search',
+      origin: 'mcp://search',
+      mcp_host: 'cursor',
+      request_body: '{"q":"hi"}',
+      status_code: 200,
+    });
+    expect(sink.rows.mcp_resource_invocations[0].response_body).toContain('"text":"ok"');
+  });
+
+  it('maps errors to statuses and re-throws', async () => {
+    const mcp = createMcpTelemetry();
+    const handler = mcp.wrap(async (request: McpRequest, _extra: unknown) => {
+      if (request.params?.name === 'broken') throw new Error('boom');
+      if (request.params?.name === 'invalid') {
+        throw Object.assign(new Error('bad args'), { code: -32602 });
+      }
+      return { content: [], isError: true };
+    });
+    const call = (name: string) => handler({ method: 'tools/call', params: { name } }, {});
+
+    await expect(call('broken')).rejects.toThrow('boom');
+    await expect(call('invalid')).rejects.toThrow('bad args');
+    await call('failing');
+
+    expect(sink.rows.mcp_resource_invocations.map((row) => row.status_code)).toEqual([
+      500, 400, 500,
+    ]);
+    expect(sink.rows.mcp_resource_invocations[0].response_body).toBe('{"message":"boom"}');
+  });
+
+  it('reads identity headers and the context from the SDK extra', async () => {
+    const mcp = createMcpTelemetry({ telemetry: createTelemetryInstance({ sink }) });
+    mcp.setHost({ name: 'claude-ai' });
+    const handler = mcp.wrap(async (_request: McpRequest, extra: object) => {
+      mcp.context(extra)?.setVerifiedWallet('0xABC');
+      return { contents: [] };
+    });
+
+    await handler(
+      { method: 'resources/read', params: { uri: 'docs://readme' } },
+      { requestInfo: { headers: { 'x-client-id': 'poncho', 'x-wallet-address': '0xABC' } } },
+    );
+    await handler({ method: 'tools/list' }, {});
+
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(1);
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      route: 'docs://readme',
+      mcp_host: 'claude-ai',
+      client_type: 'Poncho',
+      identity_confidence: 'verified-match',
+      request_body: null,
+    });
+  });
+});
+
+describe('X-MCP-Host', () => {
+  it('is read from HTTP requests', () => {
+    const meta = extractRequestMeta(
+      new Request('https://api.example.com/api/search', { headers: { 'X-MCP-Host': 'cursor' } }),
+    );
+    expect(meta.mcpHost).toBe('cursor');
+  });
+});
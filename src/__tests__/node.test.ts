@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type RequestListener, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { initTelemetry } from '../init';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { createTelemetryMiddleware, getTelemetryContext } from '../node';
+
+let server: Server | null = null;
+
+async function serve(listener: RequestListener): Promise<string> {
+  server = createServer(listener);
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function rowsWritten(sink: MemorySink, count: number) {
+  for (let i = 0; i < 50 && sink.rows.mcp_resource_invocations.length < count; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return sink.rows.mcp_resource_invocations;
+}
+
+describe('createTelemetryMiddleware', () => {
+  let sink: MemorySink;
+  const middleware = createTelemetryMiddleware();
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = null;
+  });
+
+  it('records the response once it finishes', async () => {
+    const url = await serve((req, res) =>
+      middleware(req, res, () => {
+        getTelemetryContext(req)?.setVerifiedWallet('0xABC');
+        (req as { body?: unknown }).body = { q: 'hi' };
+        res.setHeader('content-type', 'application/json');
+        res.write('{"ok":');
+        res.end('true}');
+      }),
+    );
+
+    await fetch(`${url}/api/search?q=hi`, {
+      method: 'POST',
+      headers: { 'X-Wallet-Address': '0xABC', 'X-Client-ID': 'poncho' },
+    });
+    const [row] = await rowsWritten(sink, 1);
+
+    expect(row).toMatchObject({
+      method: 'POST',
+      route: '/api/search',
+      origin: url,
+      x_wallet_address: '0xabc',
+      verified_wallet_address: '0xabc',
+      identity_confidence: 'verified-match',
+      request_body: '{"q":"hi"}',
+      response_body: '{"ok":true}',
+      response_content_type: 'application/json',
+      status_code: 200,
+      stream_status: null,
+    });
+  });
+
+  it('redacts a parsed request body before cutting it to maxBodyBytes', async () => {
+    initTelemetry({ sink, maxBodyBytes: 40, redact: { bodyPaths: ['password'] } });
+    const url = await serve((req, res) =>
+      middleware(req, res, () => {
+        (req as { body?: unknown }).body = { password: 'hunter2', q: 'x'.repeat(100) };
+        res.end('ok');
+      }),
+    );
+
+    await fetch(`${url}/api/login`, { method: 'POST' });
+    const [row] = await rowsWritten(sink, 1);
+
+    expect(row.request_body).toBe('{"password":"[REDACTED]","q":"' + 'x'.repeat(10));
+    expect(row.request_body_truncated).toBe(true);
+  });
+
+  it('records stream timing for event streams', async () => {
+    const url = await serve((req, res) =>
+      middleware(req, res, () => {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('data: 1\n\n');
+        setTimeout(() => res.end('data: 2\n\n'), 5);
+      }),
+    );
+
+    await (await fetch(`${url}/api/stream`)).text();
+    const [row] = await rowsWritten(sink, 1);
+
+    expect(row.stream_status).toBe('complete');
+    expect(row.time_to_first_byte).not.toBeNull();
+    expect(row.response_body).toBe('data: 1\n\ndata: 2\n\n');
+  });
+
+  it('skips 402 payment challenges', async () => {
+    const url = await serve((req, res) =>
+      middleware(req, res, () => {
+        res.statusCode = 402;
+        res.end();
+      }),
+    );
+
+    await fetch(`${url}/api/paid`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+});
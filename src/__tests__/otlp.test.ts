@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createOtlpSink } from '../otlp';
+import type { McpResourceInvocation, ProviderCallRecord } from '../types';
+
+const invocation = {
+  id: 'req-1',
+  trace_id: '0af7651916cd43dd8448eb211c80319c',
+  span_id: '1111111111111111',
+  parent_span_id: 'b7ad6b7169203331',
+  x_wallet_address: '0xabc',
+  x_client_id: 'x402scan-mcp',
+  client_type: 'MCP',
+  session_id: null,
+  mcp_host: 'cursor',
+  verified_wallet_address: '0xabc',
+  identity_confidence: 'verified-match',
+  identity_violations: [],
+  payment_scheme: 'exact',
+  payment_network: 'eip155:8453',
+  payment_asset: '0xusdc',
+  payment_amount: '10000',
+  settlement_success: true,
+  method: 'POST',
+  route: '/api/search',
+  origin: 'https://api.example.com',
+  status_code: 502,
+  status_text: '502',
+  duration: 250,
+  sample_rate: 1,
+  body_sampled_out: false,
+  attributes: { provider: 'apollo' },
+  created_at: new Date('2026-01-01T00:00:01Z'),
+} as unknown as McpResourceInvocation;
+
+const call: ProviderCallRecord = {
+  request_id: 'req-1',
+  trace_id: '0af7651916cd43dd8448eb211c80319c',
+  span_id: '2222222222222222',
+  parent_span_id: '1111111111111111',
+  provider: 'apollo',
+  host: 'api.apollo.io',
+  method: 'POST',
+  route: '/api/search',
+  origin: 'https://api.example.com',
+  status: 503,
+  duration: 200,
+  request_bytes: 7,
+  response_bytes: 12,
+  cost: 0.02,
+  error: null,
+  created_at: new Date('2026-01-01T00:00:00.800Z'),
+};
+
+interface ExportedSpan {
+  attributes: Array<{ key: string; value: unknown }>;
+  [field: string]: unknown;
+}
+
+interface ExportRequest {
+  resourceSpans: Array<{
+    resource: { attributes: unknown[] };
+    scopeSpans: Array<{ spans: ExportedSpan[] }>;
+  }>;
+}
+
+function stubCollector(status = 200) {
+  const bodies: Array<{ url: string; body: ExportRequest }> = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string, init: RequestInit) => {
+      bodies.push({ url, body: JSON.parse(init.body as string) });
+      return new Response(status === 200 ? '{}' : 'bad request', { status });
+    }),
+  );
+  return bodies;
+}
+
+describe('createOtlpSink', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('exports invocations as server spans with identity and payment attributes', async () => {
+    const bodies = stubCollector();
+    await createOtlpSink({ url: 'http://collector:4318/' }).write('mcp_resource_invocations', [
+      invocation,
+    ]);
+
+    expect(bodies[0].url).toBe('http://collector:4318/v1/traces');
+    const [resourceSpans] = bodies[0].body.resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'https://api.example.com' } },
+    ]);
+    const [span] = resourceSpans.scopeSpans[0].spans;
+    expect(span).toMatchObject({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: '1111111111111111',
+      parentSpanId: 'b7ad6b7169203331',
+      name: 'POST /api/search',
+      kind: 2,
+      startTimeUnixNano: '1767225600750000000',
+      endTimeUnixNano: '1767225601000000000',
+      status: { code: 2 },
+    });
+    expect(span.attributes).toEqual(
+      expect.arrayContaining([
+        { key: 'provider', value: { stringValue: 'apollo' } },
+        { key: 'http.response.status_code', value: { intValue: '502' } },
+        { key: 'agentcash.mcp_host', value: { stringValue: 'cursor' } },
+        { key: 'agentcash.payment.amount', value: { stringValue: '10000' } },
+        { key: 'agentcash.settlement.success', value: { boolValue: true } },
+      ]),
+    );
+    expect(span.attributes.map((attribute) => attribute.key)).not.toContain('agentcash.session_id');
+  });
+
+  it('exports provider calls as client spans and ignores other tables', async () => {
+    const bodies = stubCollector();
+    const sink = createOtlpSink({ url: 'http://collector:4318/v1/traces', serviceName: 'search' });
+    await sink.write('provider_calls', [call]);
+    await sink.write('router_events', []);
+
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0].url).toBe('http://collector:4318/v1/traces');
+    const [span] = bodies[0].body.resourceSpans[0].scopeSpans[0].spans;
+    expect(span).toMatchObject({
+      parentSpanId: '1111111111111111',
+      name: 'POST apollo',
+      kind: 3,
+      status: { code: 2, message: 'HTTP 503' },
+    });
+    expect(span.attributes).toEqual(
+      expect.arrayContaining([{ key: 'agentcash.cost_usd', value: { doubleValue: 0.02 } }]),
+    );
+  });
+
+  it('rejects on a collector error', async () => {
+    stubCollector(400);
+    await expect(
+      createOtlpSink({ url: 'http://collector:4318' }).write('provider_calls', [call]),
+    ).rejects.toThrow('OTLP HTTP 400: bad request');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { decodePaymentHeader, decodePaymentResponseHeader } from '../payment-header';
+
+function base64(obj: unknown): string {
+  return Buffer.from(JSON.stringify(obj)).toString('base64');
+}
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58Decode(text: string): number[] {
+  let value = 0n;
+  for (const char of text) value = value * 58n + BigInt(ALPHABET.indexOf(char));
+  const bytes: number[] = [];
+  for (let i = 0; i < 32; i++) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+/** A v0 Solana transaction with one TransferChecked instruction. */
+function svmTransaction(owner: string, mint: string, amount: bigint): string {
+  const keys = [
+    'FeePayer1111111111111111111111111111111111',
+    owner,
+    'Source111111111111111111111111111111111111',
+    'Destination11111111111111111111111111111111',
+    mint,
+    'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  ];
+  const amountBytes = new Uint8Array(8);
+  new DataView(amountBytes.buffer).setBigUint64(0, amount, true);
+  const bytes = [
+    2, // signatures
+    ...new Array(128).fill(0),
+    0x80, // v0 prefix
+    2,
+    1,
+    1, // header
+    keys.length,
+    ...keys.flatMap(base58Decode),
+    ...new Array(32).fill(7), // blockhash
+    1, // instructions
+    5, // program index
+    4,
+    2,
+    4,
+    3,
+    1, // accounts: source, mint, destination, owner
+    10,
+    12,
+    ...amountBytes,
+    6, // data: TransferChecked, amount, decimals
+    0, // address table lookups
+  ];
+  return Buffer.from(bytes).toString('base64');
+}
+
+describe('decodePaymentHeader', () => {
+  it('decodes an x402 v1 EIP-3009 payload', () => {
+    const header = base64({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      payload: {
+        signature: '0xsig',
+        authorization: {
+          from: '0xAAaa000000000000000000000000000000000001',
+          to: '0xBBbb000000000000000000000000000000000002',
+          value: '50000',
+          validAfter: '1700000000',
+          validBefore: '1700000600',
+          nonce: '0x01',
+        },
+      },
+    });
+
+    expect(decodePaymentHeader(header)).toEqual({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      asset: null,
+      amount: '50000',
+      payer: '0xaaaa000000000000000000000000000000000001',
+      payTo: '0xbbbb000000000000000000000000000000000002',
+      validAfter: 1700000000,
+      validBefore: 1700000600,
+    });
+  });
+
+  it('takes scheme, network and asset from v2 accepted requirements', () => {
+    const header = base64({
+      x402Version: 2,
+      accepted: {
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: '10000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0xbbbb000000000000000000000000000000000002',
+      },
+      payload: { authorization: { from: '0xaaaa000000000000000000000000000000000001' } },
+    });
+
+    const decoded = decodePaymentHeader(header);
+    expect(decoded?.x402Version).toBe(2);
+    expect(decoded?.network).toBe('eip155:8453');
+    expect(decoded?.asset).toBe('0x833589fcd6edb6e08f4c7c32d4f71b54bda02913');
+    expect(decoded?.amount).toBe('10000');
+    expect(decoded?.payer).toBe('0xaaaa000000000000000000000000000000000001');
+  });
+
+  it('decodes Permit2 authorizations', () => {
+    const header = base64({
+      x402Version: 2,
+      accepted: { scheme: 'exact', network: 'eip155:1' },
+      payload: {
+        signature: '0xsig',
+        permit2Authorization: {
+          from: '0xCCcc000000000000000000000000000000000003',
+          permitted: { token: '0xdddd000000000000000000000000000000000004', amount: '250' },
+          spender: '0xeeee000000000000000000000000000000000005',
+          nonce: '1',
+          deadline: '1700000900',
+          witness: { to: '0xbbbb000000000000000000000000000000000002', validAfter: '1700000000' },
+        },
+      },
+    });
+
+    expect(decodePaymentHeader(header)).toMatchObject({
+      payer: '0xcccc000000000000000000000000000000000003',
+      asset: '0xdddd000000000000000000000000000000000004',
+      amount: '250',
+      payTo: '0xbbbb000000000000000000000000000000000002',
+      validAfter: 1700000000,
+      validBefore: 1700000900,
+    });
+  });
+
+  it('reads payer, mint and amount from a Solana TransferChecked transaction', () => {
+    const owner = 'Payer11111111111111111111111111111111111111';
+    const mint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const header = base64({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'solana',
+      payload: { transaction: svmTransaction(owner, mint, 1_500_000n) },
+    });
+
+    expect(decodePaymentHeader(header)).toMatchObject({
+      network: 'solana',
+      payer: owner,
+      asset: mint,
+      amount: '1500000',
+    });
+  });
+
+  it('returns null for headers that are not base64 JSON', () => {
+    expect(decodePaymentHeader('not-base64!!!')).toBeNull();
+    expect(decodePaymentHeader(Buffer.from('[]').toString('base64'))).toBeNull();
+  });
+
+  it('never throws on a garbled Solana transaction', () => {
+    const header = base64({ payload: { transaction: 'AAAA' } });
+    expect(decodePaymentHeader(header)?.payer).toBeNull();
+  });
+});
+
+describe('decodePaymentResponseHeader', () => {
+  it('decodes a settlement result', () => {
+    const header = base64({
+      success: true,
+      transaction: '0xtxhash',
+      network: 'eip155:8453',
+      payer: '0xAAaa000000000000000000000000000000000001',
+    });
+
+    expect(decodePaymentResponseHeader(header)).toEqual({
+      success: true,
+      transaction: '0xtxhash',
+      network: 'eip155:8453',
+      payer: '0xaaaa000000000000000000000000000000000001',
+      errorReason: null,
+    });
+  });
+
+  it('keeps the error reason of a failed settlement', () => {
+    const header = base64({ success: false, transaction: '', errorReason: 'insufficient_funds' });
+
+    expect(decodePaymentResponseHeader(header)).toMatchObject({
+      success: false,
+      transaction: null,
+      errorReason: 'insufficient_funds',
+    });
+  });
+});
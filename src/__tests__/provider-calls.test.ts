@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initTelemetry } from '../init';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { withFetchTelemetry } from '../fetch';
+import { createTelemetryPlugin, type TelemetryPluginExtensions } from '../router-plugin';
+
+function stubUpstream(respond: (request: Request) => Response | Promise<Response>) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (input: string | URL | Request, init?: RequestInit) =>
+      respond(new Request(input, init)),
+    ),
+  );
+}
+
+describe('ctx.fetch', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records the upstream call linked to the invocation', async () => {
+    stubUpstream(() => Response.json({ people: [1, 2, 3] }, { headers: { 'x-cost': '0.02' } }));
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      const upstream = await ctx.fetch('https://api.apollo.io/v1/people?q=1', {
+        method: 'post',
+        body: '{"q":1}',
+        provider: 'apollo',
+        cost: (response) => Number(response.headers.get('x-cost')),
+      });
+      return Response.json(await upstream.json());
+    });
+
+    await (await handler(new Request('https://api.example.com/api/people'))).text();
+    await Promise.resolve();
+
+    const [invocation] = sink.rows.mcp_resource_invocations;
+    expect(sink.rows.provider_calls).toHaveLength(1);
+    expect(sink.rows.provider_calls[0]).toMatchObject({
+      request_id: invocation.id,
+      provider: 'apollo',
+      host: 'api.apollo.io',
+      method: 'POST',
+      route: '/api/people',
+      status: 200,
+      request_bytes: 7,
+      response_bytes: '{"people":[1,2,3]}'.length,
+      cost: 0.02,
+      error: null,
+    });
+  });
+
+  it('records network errors and re-throws them', async () => {
+    stubUpstream(() => {
+      throw new TypeError('fetch failed');
+    });
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      await ctx.fetch('https://api.example.org/data');
+      return new Response('unreachable');
+    });
+
+    await expect(handler(new Request('https://api.example.com/api/data'))).rejects.toThrow(
+      'fetch failed',
+    );
+
+    expect(sink.rows.provider_calls[0]).toMatchObject({
+      provider: 'api.example.org',
+      status: null,
+      response_bytes: null,
+      error: 'fetch failed',
+    });
+  });
+
+  it('writes calls with unread bodies along with the invocation', async () => {
+    stubUpstream(() => new Response('ignored body', { status: 503 }));
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      const upstream = await ctx.fetch('https://api.example.org/data');
+      return new Response(null, { status: upstream.status === 503 ? 502 : 200 });
+    });
+
+    await (await handler(new Request('https://api.example.com/api/data'))).text();
+    await Promise.resolve();
+
+    expect(sink.rows.provider_calls[0]).toMatchObject({
+      status: 503,
+      response_bytes: 0,
+      error: 'body not fully read',
+    });
+  });
+});
+
+describe('router plugin fetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records calls made through the plugin context', async () => {
+    stubUpstream(() => new Response('ok'));
+    const sink = createMemorySink();
+    const plugin = createTelemetryPlugin({ sink });
+    const ctx = plugin.onRequest!({
+      requestId: 'req-1',
+      method: 'GET',
+      route: '/api/search',
+      origin: 'https://example.com',
+      referer: null,
+      walletAddress: null,
+      clientId: null,
+      sessionId: null,
+      contentType: null,
+      headers: {},
+      startTime: Date.now(),
+    });
+
+    const upstream = await (ctx as typeof ctx & TelemetryPluginExtensions).fetch(
+      'https://api.exa.ai/search',
+    );
+    expect(await upstream.text()).toBe('ok');
+    plugin.onResponse!(ctx, {
+      statusCode: 200,
+      statusText: 'OK',
+      duration: 5,
+      contentType: null,
+      headers: {},
+    });
+
+    expect(sink.rows.provider_calls).toEqual([
+      expect.objectContaining({ request_id: 'req-1', provider: 'api.exa.ai', response_bytes: 2 }),
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { redactInvocation, redactRow, resolveRedaction } from '../redact';
+import type { McpResourceInvocation, ProviderCallRecord, RouterEventRecord } from '../types';
+
+function row(overrides: Partial<McpResourceInvocation>): McpResourceInvocation {
+  return {
+    request_headers: null,
+    response_headers: null,
+    request_body: null,
+    response_body: null,
+    ...overrides,
+  } as McpResourceInvocation;
+}
+
+describe('redactInvocation', () => {
+  it('redacts sensitive headers by default', () => {
+    const result = redactInvocation(
+      row({
+        request_headers: JSON.stringify({
+          authorization: 'Bearer secret',
+          'PAYMENT-SIGNATURE': 'eyJ...',
+          'sign-in-with-x': 'siwx',
+          'x-client-id': 'poncho',
+        }),
+        response_headers: JSON.stringify({ 'set-cookie': 'sid=1', 'content-type': 'text/plain' }),
+      }),
+      resolveRedaction(),
+    );
+
+    expect(JSON.parse(result.request_headers!)).toEqual({
+      authorization: '[REDACTED]',
+      'PAYMENT-SIGNATURE': '[REDACTED]',
+      'sign-in-with-x': '[REDACTED]',
+      'x-client-id': 'poncho',
+    });
+    expect(JSON.parse(result.response_headers!)).toEqual({
+      'set-cookie': '[REDACTED]',
+      'content-type': 'text/plain',
+    });
+  });
+
+  it('applies header deny and allow lists', () => {
+    const headers = JSON.stringify({ 'x-internal': 'a', 'x-client-id': 'poncho', accept: '*/*' });
+
+    const denied = redactInvocation(
+      row({ request_headers: headers }),
+      resolveRedaction({ headers: { deny: ['X-Internal'] } }),
+    );
+    expect(JSON.parse(denied.request_headers!)['x-internal']).toBe('[REDACTED]');
+
+    const allowed = redactInvocation(
+      row({ request_headers: headers }),
+      resolveRedaction({ headers: { allow: ['x-client-id'] } }),
+    );
+    expect(JSON.parse(allowed.request_headers!)).toEqual({
+      'x-internal': '[REDACTED]',
+      'x-client-id': 'poncho',
+      accept: '[REDACTED]',
+    });
+  });
+
+  it('masks JSON body paths, including wildcards and any-depth matches', () => {
+    const result = redactInvocation(
+      row({
+        request_body: JSON.stringify({
+          password: 'hunter2',
+          user: { ssn: '123', name: 'Ada' },
+          items: [{ token: 'a' }, { token: 'b' }],
+          nested: { deep: { apiKey: 'k' } },
+          list: [1, 2],
+        }),
+      }),
+      resolveRedaction({
+        bodyPaths: ['password', 'user.ssn', 'items.*.token', '**.apiKey', 'list.length'],
+      }),
+    );
+
+    expect(JSON.parse(result.request_body!)).toEqual({
+      password: '[REDACTED]',
+      user: { ssn: '[REDACTED]', name: 'Ada' },
+      items: [{ token: '[REDACTED]' }, { token: '[REDACTED]' }],
+      nested: { deep: { apiKey: '[REDACTED]' } },
+      list: [1, 2],
+    });
+  });
+
+  it('scrubs emails, keys and custom patterns from bodies and header values', () => {
+    const result = redactInvocation(
+      row({
+        request_body: 'contact ada@example.com or bob@example.org with sk-abcdefghijklmnopqrstuvwx',
+        response_body: '{"order":"ORD-12345"}',
+        request_headers: JSON.stringify({ 'x-note': 'ada@example.com' }),
+      }),
+      resolveRedaction({ scrub: ['emails', 'keys', /ORD-\d+/] }),
+    );
+
+    expect(result.request_body).toBe('contact [REDACTED] or [REDACTED] with [REDACTED]');
+    expect(result.response_body).toBe('{"order":"[REDACTED]"}');
+    expect(JSON.parse(result.request_headers!)['x-note']).toBe('[REDACTED]');
+  });
+
+  it('masks the whole body when body paths are set and it is not valid JSON', () => {
+    const result = redactInvocation(
+      row({ request_body: '{"password":"hunter2","filler":"x', response_body: '{"ok":true}' }),
+      resolveRedaction({ bodyPaths: ['password'] }),
+    );
+
+    expect(result.request_body).toBe('[REDACTED]');
+    expect(result.response_body).toBe('{"ok":true}');
+  });
+
+  it('leaves the row untouched when redaction is disabled', () => {
+    const original = row({ request_headers: JSON.stringify({ authorization: 'Bearer x' }) });
+    expect(redactInvocation(original, resolveRedaction(false))).toBe(original);
+  });
+});
+
+describe('redactRow', () => {
+  const policy = resolveRedaction({ bodyPaths: ['apiKey'], scrub: ['emails', 'keys'] });
+
+  it('masks router event meta like a body and scrubs the message', () => {
+    const event = {
+      message: 'quota for ops@example.com',
+      meta: JSON.stringify({ apiKey: 'k-1', provider: 'apollo' }),
+    } as RouterEventRecord;
+
+    const result = redactRow('router_events', event, policy);
+
+    expect(result.message).toBe('quota for [REDACTED]');
+    expect(JSON.parse(result.meta!)).toEqual({ apiKey: '[REDACTED]', provider: 'apollo' });
+  });
+
+  it('scrubs provider call errors', () => {
+    const call = {
+      error: 'fetch failed: Bearer abc123',
+      provider: 'apollo',
+    } as ProviderCallRecord;
+
+    expect(redactRow('provider_calls', call, policy)).toEqual({
+      error: 'fetch failed: [REDACTED]',
+      provider: 'apollo',
+    });
+  });
+
+  it('returns rows untouched when redaction is disabled', () => {
+    const event = { message: 'ops@example.com', meta: null } as RouterEventRecord;
+    expect(redactRow('router_events', event, resolveRedaction(false))).toBe(event);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@x402/next', () => ({ withX402: vi.fn((handler: unknown) => handler) }));
+vi.mock('@x402/extensions/bazaar', () => ({ declareDiscoveryExtension: vi.fn(() => ({})) }));
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initTelemetry } from '../init';
+import { createTelemetry } from '../create-telemetry';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { createRouteBuilder } from '../route-builder';
+import { withX402 } from '@x402/next';
+
+const WALLET = '0x' + 'ab'.repeat(20);
+
+function request(headers: Record<string, string>) {
+  return new NextRequest('https://example.com/api/search', { headers });
+}
+
+describe('route builder identity checks', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+  });
+
+  it('records violations without rejecting by default', async () => {
+    const handler = createRouteBuilder().handler(async () => ({ success: true }));
+    const response = await handler(request({ 'X-Client-ID': 'undefined' }));
+
+    expect(response.status).toBe(200);
+    expect(sink.rows.mcp_resource_invocations[0].identity_violations).toEqual([
+      'wallet-address-missing',
+      'client-id-placeholder',
+    ]);
+  });
+
+  it('rejects non-conforming callers with a 400 in strict mode', async () => {
+    const handler = createRouteBuilder({ strictIdentity: true }).handler(async () => ({
+      success: true,
+    }));
+    const response = await handler(request({ 'X-Wallet-Address': WALLET }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Invalid identity headers',
+      violations: ['client-id-missing'],
+    });
+    expect(sink.rows.mcp_resource_invocations[0].status_code).toBe(400);
+  });
+
+  it('lets conforming callers through in strict mode', async () => {
+    const handler = createRouteBuilder({ strictIdentity: true }).handler(async () => ({
+      success: true,
+    }));
+    const response = await handler(
+      request({ 'X-Wallet-Address': WALLET, 'X-Client-ID': 'poncho' }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(sink.rows.mcp_resource_invocations[0].identity_violations).toEqual([]);
+  });
+
+  it('records through a createTelemetry instance when one is passed', async () => {
+    const instanceSink = createMemorySink();
+    const telemetry = createTelemetry({ sink: instanceSink });
+    const handler = createRouteBuilder({ telemetry }).handler(async () => ({ success: true }));
+    await handler(request({}));
+
+    expect(instanceSink.rows.mcp_resource_invocations).toHaveLength(1);
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+});
+
+describe('route builder settlement capture', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+    process.env.X402_PAYEE_ADDRESS = '0xbbbb000000000000000000000000000000000002';
+  });
+
+  function paidRoute(settle: (response: NextResponse) => NextResponse) {
+    vi.mocked(withX402).mockImplementation(
+      ((handler: (request: NextRequest) => Promise<NextResponse>) => async (request: NextRequest) =>
+        settle(await handler(request))) as never,
+    );
+    return createRouteBuilder({ x402Server: {} })
+      .price('0.01', 'eip155:8453')
+      .handler(async () => ({ success: true }));
+  }
+
+  it('records the decoded PAYMENT-RESPONSE on the row', async () => {
+    const handler = paidRoute((response) => {
+      const settlement = { success: true, transaction: '0xtx', network: 'eip155:8453' };
+      response.headers.set(
+        'PAYMENT-RESPONSE',
+        Buffer.from(JSON.stringify(settlement)).toString('base64'),
+      );
+      return response;
+    });
+    await handler(request({}));
+
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      status_code: 200,
+      settlement_success: true,
+      settlement_transaction: '0xtx',
+      settlement_network: 'eip155:8453',
+    });
+  });
+
+  it('records a failed settlement when withX402 replaces the response with a 402', async () => {
+    const handler = paidRoute(() =>
+      NextResponse.json(
+        { error: 'Settlement failed', details: 'insufficient_funds' },
+        { status: 402 },
+      ),
+    );
+    const response = await handler(request({}));
+
+    // The row is recorded after the response is returned, from a copy of the body
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ error: 'Settlement failed' });
+    await vi.waitFor(() => expect(sink.rows.mcp_resource_invocations).toHaveLength(1));
+    expect(sink.rows.mcp_resource_invocations[0]).toMatchObject({
+      status_code: 200,
+      settlement_success: false,
+      settlement_error: 'insufficient_funds',
+    });
+  });
+
+  it('retries a paid route whose setup failed', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = paidRoute((response) => response);
+    vi.mocked(withX402).mockImplementationOnce(() => {
+      throw new Error('bad route config');
+    });
+    const retried = createRouteBuilder({ x402Server: {} })
+      .price('0.01', 'eip155:8453')
+      .handler(async () => ({ success: true }));
+    await vi.waitFor(() =>
+      expect(error).toHaveBeenCalledWith(
+        '[telemetry] Paid route setup failed:',
+        'bad route config',
+      ),
+    );
+
+    expect((await retried(request({}))).status).toBe(200);
+    expect((await handler(request({}))).status).toBe(200);
+    error.mockRestore();
+  });
+});
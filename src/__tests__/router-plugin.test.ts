@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createTelemetryPlugin, type TelemetryAttributes } from '../router-plugin';
+import { createMemorySink, type MemorySink } from '../sinks';
+
+function requestMeta(overrides?: Record<string, unknown>) {
+  return {
+    requestId: 'req-1',
+    method: 'POST',
+    route: '/api/search',
+    origin: 'https://example.com',
+    referer: null,
+    walletAddress: '0xAbC',
+    clientId: 'x402scan-mcp',
+    sessionId: 'sess-1',
+    contentType: 'application/json',
+    headers: { 'content-type': 'application/json' },
+    startTime: Date.now(),
+    ...overrides,
+  };
+}
+
+function responseMeta(statusCode = 200) {
+  return {
+    statusCode,
+    statusText: 'OK',
+    duration: 12,
+    contentType: 'application/json',
+    headers: {},
+  };
+}
+
+describe('createTelemetryPlugin', () => {
+  let sink: MemorySink;
+  let plugin: ReturnType<typeof createTelemetryPlugin>;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    plugin = createTelemetryPlugin({ sink });
+  });
+
+  it('writes an invocation row on response', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(1);
+    const row = sink.rows.mcp_resource_invocations[0];
+    expect(row.id).toBe('req-1');
+    expect(row.x_wallet_address).toBe('0xabc');
+    expect(row.client_type).toBe('MCP');
+    expect(row.status_code).toBe(200);
+  });
+
+  it('records attributes set on the plugin context', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    (ctx as typeof ctx & TelemetryAttributes).setAttribute('provider', 'apollo');
+    (ctx as typeof ctx & TelemetryAttributes).addTags('bulk');
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(sink.rows.mcp_resource_invocations[0].attributes).toEqual({
+      provider: 'apollo',
+      'tag.bulk': 'true',
+    });
+  });
+
+  it('skips 402 payment challenges', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onResponse!(ctx, responseMeta(402));
+
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+  });
+
+  it('persists verified and settled payments to x402_payments', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onPaymentVerified!(ctx, {
+      protocol: 'x402',
+      payer: '0xPAYER',
+      amount: '0.05',
+      network: 'eip155:8453',
+    });
+    plugin.onPaymentSettled!(ctx, {
+      protocol: 'x402',
+      payer: '0xPAYER',
+      transaction: '0xtx',
+      network: 'eip155:8453',
+    });
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(sink.rows.x402_payments).toEqual([
+      {
+        request_id: 'req-1',
+        protocol: 'x402',
+        route: '/api/search',
+        origin: 'https://example.com',
+        payer: '0xpayer',
+        amount: '0.05',
+        network: 'eip155:8453',
+        transaction: '0xtx',
+        settled: true,
+        created_at: sink.rows.mcp_resource_invocations[0].created_at,
+      },
+    ]);
+  });
+
+  it('records verified-but-unsettled payments with settled: false', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onPaymentVerified!(ctx, {
+      protocol: 'mpp',
+      payer: '0xpayer',
+      amount: '100',
+      network: 'tempo',
+    });
+    plugin.onResponse!(ctx, responseMeta(500));
+
+    expect(sink.rows.x402_payments[0]).toMatchObject({
+      protocol: 'mpp',
+      transaction: null,
+      settled: false,
+    });
+  });
+
+  it('keeps the case of Solana payers and verified wallets', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    ctx.setVerifiedWallet('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM');
+    plugin.onPaymentSettled!(ctx, {
+      protocol: 'x402',
+      payer: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+      transaction: '5h3T',
+      network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    });
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(sink.rows.x402_payments[0].payer).toBe('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM');
+    expect(sink.rows.mcp_resource_invocations[0].verified_wallet_address).toBe(
+      sink.rows.x402_payments[0].payer,
+    );
+  });
+
+  it('writes no payment row for free requests', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(sink.rows.x402_payments).toHaveLength(0);
+  });
+
+  it('records provider quota events', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onProviderQuota!(ctx, {
+      provider: 'apollo',
+      route: '/api/search',
+      remaining: 12,
+      limit: 1000,
+      level: 'warn',
+      overage: 'none',
+      message: '12 of 1000 credits left',
+    });
+
+    expect(sink.rows.provider_quota_events).toEqual([
+      expect.objectContaining({
+        request_id: 'req-1',
+        provider: 'apollo',
+        origin: 'https://example.com',
+        level: 'warn',
+        remaining: 12,
+        limit: 1000,
+      }),
+    ]);
+  });
+
+  it('records errors with the settled flag', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onError!(ctx, { status: 500, message: 'upstream failed', settled: true });
+
+    expect(sink.rows.router_events).toEqual([
+      expect.objectContaining({
+        request_id: 'req-1',
+        kind: 'error',
+        level: 'error',
+        route: '/api/search',
+        status: 500,
+        settled: true,
+        meta: null,
+      }),
+    ]);
+  });
+
+  it('records alerts with meta as JSON', () => {
+    const ctx = plugin.onRequest!(requestMeta());
+    plugin.onAlert!(ctx, {
+      level: 'warn',
+      message: 'slow upstream',
+      route: '/api/search',
+      meta: { latencyMs: 9000 },
+    });
+
+    expect(sink.rows.router_events).toEqual([
+      expect.objectContaining({
+        kind: 'alert',
+        level: 'warn',
+        meta: '{"latencyMs":9000}',
+        status: null,
+        settled: null,
+      }),
+    ]);
+  });
+
+  it('redacts sensitive request headers before writing', () => {
+    const ctx = plugin.onRequest!(
+      requestMeta({ headers: { authorization: 'Bearer secret', accept: '*/*' } }),
+    );
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(JSON.parse(sink.rows.mcp_resource_invocations[0].request_headers!)).toEqual({
+      authorization: '[REDACTED]',
+      accept: '*/*',
+    });
+  });
+
+  it('flags a paying wallet that differs from the claimed one', () => {
+    const onIdentityMismatch = vi.fn();
+    plugin = createTelemetryPlugin({ sink, onIdentityMismatch });
+    const ctx = plugin.onRequest!(requestMeta());
+    ctx.setVerifiedWallet('0xOTHER');
+    plugin.onResponse!(ctx, responseMeta());
+
+    expect(sink.rows.mcp_resource_invocations[0].identity_confidence).toBe('verified-mismatch');
+    expect(onIdentityMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({ claimedWallet: '0xabc', verifiedWallet: '0xother' }),
+    );
+  });
+
+  it('never throws from onRequest or onResponse on malformed headers', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const ctx = plugin.onRequest!(requestMeta({ headers: { 'bad header': 'x' } }));
+    const tCtx = ctx as typeof ctx & TelemetryAttributes;
+
+    // Attribute setters still work on the fallback context
+    expect(() => tCtx.setAttribute('provider', 'apollo')).not.toThrow();
+    expect(() => plugin.onResponse!(ctx, responseMeta())).not.toThrow();
+    expect(error).toHaveBeenCalledWith('[telemetry] onRequest failed:', expect.any(String));
+    expect(error).toHaveBeenCalledWith('[telemetry] onResponse failed:', expect.any(String));
+    error.mockRestore();
+  });
+});
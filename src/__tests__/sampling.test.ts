@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSampling, routeGlob, sampleInvocation } from '../sampling';
+import type { McpResourceInvocation } from '../types';
+
+function row(overrides: Partial<McpResourceInvocation> = {}): McpResourceInvocation {
+  return {
+    id: 'req-1',
+    trace_id: '0af7651916cd43dd8448eb211c80319c',
+    span_id: 'b7ad6b7169203331',
+    parent_span_id: null,
+    x_wallet_address: null,
+    x_client_id: null,
+    client_type: 'Unknown',
+    session_id: null,
+    mcp_host: null,
+    verified_wallet_address: null,
+    identity_confidence: 'anonymous',
+    identity_violations: [],
+    payment_scheme: null,
+    payment_network: null,
+    payment_asset: null,
+    payment_amount: null,
+    settlement_success: null,
+    settlement_transaction: null,
+    settlement_network: null,
+    settlement_error: null,
+    method: 'GET',
+    route: '/api/health',
+    origin: 'https://example.com',
+    referer: null,
+    request_content_type: null,
+    request_headers: '{}',
+    request_body: '{"q":1}',
+    request_body_size: 7,
+    request_body_truncated: false,
+    request_body_sha256: null,
+    status_code: 200,
+    status_text: 'OK',
+    duration: 5,
+    time_to_first_byte: null,
+    stream_duration: null,
+    stream_status: null,
+    response_content_type: 'application/json',
+    response_headers: '{}',
+    response_body: '{"ok":true}',
+    response_body_size: 11,
+    response_body_truncated: false,
+    response_body_sha256: null,
+    sample_rate: 1,
+    body_sampled_out: false,
+    attributes: {},
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const keep = () => 0;
+const skip = () => 0.999;
+
+describe('routeGlob', () => {
+  it('matches * within a segment and ** across segments', () => {
+    expect(routeGlob('/api/*').test('/api/health')).toBe(true);
+    expect(routeGlob('/api/*').test('/api/v1/health')).toBe(false);
+    expect(routeGlob('/.well-known/**').test('/.well-known/x402/discovery')).toBe(true);
+    expect(routeGlob('/api/health').test('/api/healthz')).toBe(false);
+  });
+});
+
+describe('sampleInvocation', () => {
+  it('keeps every row without a policy', () => {
+    expect(sampleInvocation(row(), resolveSampling())).toEqual(row());
+  });
+
+  it('drops unsampled rows and records the rate on kept ones', () => {
+    const policy = resolveSampling({ routes: [{ route: '/api/health', rate: 0.1 }] });
+
+    expect(sampleInvocation(row(), policy, skip)).toBeNull();
+    expect(sampleInvocation(row(), policy, keep)?.sample_rate).toBeCloseTo(0.1);
+    // Routes without a rule use the default rate of 1
+    expect(sampleInvocation(row({ route: '/api/search' }), policy, skip)?.sample_rate).toBe(1);
+  });
+
+  it('uses the first matching rule', () => {
+    const policy = resolveSampling({
+      routes: [
+        { route: '/api/health', rate: 1 },
+        { route: '/api/**', rate: 0 },
+      ],
+    });
+    expect(sampleInvocation(row(), policy, skip)).not.toBeNull();
+    expect(sampleInvocation(row({ route: '/api/other' }), policy, keep)).toBeNull();
+  });
+
+  it('always keeps errors and paid calls by default', () => {
+    const policy = resolveSampling({ rate: 0 });
+
+    expect(sampleInvocation(row({ status_code: 500 }), policy, skip)?.sample_rate).toBe(1);
+    expect(
+      sampleInvocation(row({ verified_wallet_address: '0xabc' }), policy, skip),
+    ).not.toBeNull();
+    expect(sampleInvocation(row(), policy, skip)).toBeNull();
+  });
+
+  it('can sample errors and paid calls too', () => {
+    const policy = resolveSampling({ rate: 0, keepErrors: false, keepPaid: false });
+
+    expect(sampleInvocation(row({ status_code: 500 }), policy, skip)).toBeNull();
+    expect(sampleInvocation(row({ verified_wallet_address: '0xabc' }), policy, skip)).toBeNull();
+  });
+
+  it('keeps the row but drops bodies in bodies mode', () => {
+    const policy = resolveSampling({ rate: 0.5, mode: 'bodies' });
+    const sampled = sampleInvocation(row(), policy, skip);
+
+    expect(sampled?.sample_rate).toBe(1);
+    expect(sampled?.request_body).toBeNull();
+    expect(sampled?.response_body).toBeNull();
+    expect(sampled?.response_body_size).toBe(11);
+    expect(sampled?.body_sampled_out).toBe(true);
+    expect(sampleInvocation(row(), policy, keep)).toMatchObject({
+      response_body: '{"ok":true}',
+      body_sampled_out: false,
+    });
+  });
+});
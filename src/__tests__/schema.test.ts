@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockCommand = vi.fn().mockResolvedValue(undefined);
+const mockInsert = vi.fn().mockResolvedValue(undefined);
+const mockClose = vi.fn().mockResolvedValue(undefined);
+const mockQuery = vi.fn();
+
+vi.mock('@clickhouse/client', () => ({
+  createClient: vi.fn(() => ({
+    command: mockCommand,
+    insert: mockInsert,
+    query: mockQuery,
+    close: mockClose,
+  })),
+}));
+
+import {
+  checkSchema,
+  ensureSchema,
+  formatSchemaCheck,
+  EXPECTED_COLUMNS,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+} from '../schema';
+import type { TelemetryTable } from '../types';
+
+function currentVersion(version: number | null) {
+  mockQuery.mockResolvedValue({
+    json: async () => [{ version: version ?? 0 }],
+  });
+}
+
+describe('ensureSchema', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('applies every migration to a fresh database and records each version', async () => {
+    currentVersion(null);
+
+    const result = await ensureSchema({ url: 'http://localhost:8123' });
+
+    expect(result).toEqual({
+      from: 0,
+      to: SCHEMA_VERSION,
+      applied: MIGRATIONS.map((m) => m.version),
+    });
+    expect(mockCommand.mock.calls[0][0].query).toContain(
+      'CREATE TABLE IF NOT EXISTS telemetry_schema_migrations',
+    );
+    expect(mockInsert).toHaveBeenCalledTimes(MIGRATIONS.length);
+    expect(mockInsert.mock.calls[0][0]).toEqual({
+      table: 'telemetry_schema_migrations',
+      values: [{ version: 1, description: MIGRATIONS[0].description }],
+      format: 'JSONEachRow',
+    });
+    expect(mockClose).toHaveBeenCalledOnce();
+  });
+
+  it('only applies migrations newer than the recorded version', async () => {
+    currentVersion(1);
+
+    const result = await ensureSchema({ url: 'http://localhost:8123' });
+
+    expect(result.from).toBe(1);
+    expect(result.applied).toEqual(MIGRATIONS.slice(1).map((m) => m.version));
+    expect(mockCommand.mock.calls[1][0].query).toContain(
+      'ADD COLUMN IF NOT EXISTS verified_wallet_address',
+    );
+  });
+
+  it('is a no-op when the schema is current', async () => {
+    currentVersion(SCHEMA_VERSION);
+
+    const result = await ensureSchema({ url: 'http://localhost:8123' });
+
+    expect(result).toEqual({ from: SCHEMA_VERSION, to: SCHEMA_VERSION, applied: [] });
+    expect(mockCommand).toHaveBeenCalledOnce();
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects and closes the client when a statement fails', async () => {
+    currentVersion(0);
+    mockCommand.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('no access'));
+
+    await expect(ensureSchema({ url: 'http://localhost:8123' })).rejects.toThrow('no access');
+    expect(mockClose).toHaveBeenCalledOnce();
+  });
+
+  it('uses strictly increasing versions', () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+});
+
+/** Columns produced by replaying every migration's DDL, for comparison with EXPECTED_COLUMNS. */
+function columnsFromMigrations(): Record<string, Record<string, string>> {
+  const tables: Record<string, Record<string, string>> = {};
+  for (const statement of MIGRATIONS.flatMap((m) => m.statements)) {
+    const create = statement.match(/CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*)\) ENGINE/);
+    if (create) {
+      tables[create[1]] = {};
+      for (const line of create[2].split('\n')) {
+        const column = line.trim().match(/^`?(\w+)`?\s+(.+?)(?: DEFAULT .*)?,?$/);
+        if (column) tables[create[1]][column[1]] = column[2].replace(/,$/, '');
+      }
+      continue;
+    }
+    const alter = statement.match(/ALTER TABLE (\w+)\s+([\s\S]*)/);
+    if (!alter) continue;
+    for (const clause of alter[2].split(/,\s*(?=ADD COLUMN)/)) {
+      const column = clause.match(
+        /ADD COLUMN IF NOT EXISTS (\w+) (.+?)(?: DEFAULT .+?)?(?: AFTER \w+)?$/,
+      );
+      if (column) tables[alter[1]][column[1]] = column[2];
+    }
+  }
+  return tables;
+}
+
+describe('checkSchema', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function liveColumns(overrides: (rows: { table: string; name: string; type: string }[]) => void) {
+    const rows = Object.entries(EXPECTED_COLUMNS).flatMap(([table, columns]) =>
+      Object.entries(columns).map(([name, type]) => ({ table, name, type })),
+    );
+    overrides(rows);
+    mockQuery.mockResolvedValue({ json: async () => rows });
+  }
+
+  it('migrations produce exactly EXPECTED_COLUMNS', () => {
+    expect(columnsFromMigrations()).toEqual(EXPECTED_COLUMNS);
+  });
+
+  it('reports ok when live columns match', async () => {
+    liveColumns(() => {});
+
+    const check = await checkSchema({ url: 'http://localhost:8123' });
+
+    expect(check).toEqual({ ok: true, drift: [] });
+    expect(mockClose).toHaveBeenCalledOnce();
+  });
+
+  it('reports missing, extra and mistyped columns and missing tables', async () => {
+    liveColumns((rows) => {
+      const invocations = (name: string) =>
+        rows.findIndex((r) => r.table === 'mcp_resource_invocations' && r.name === name);
+      rows.splice(invocations('verified_wallet_address'), 1);
+      rows[invocations('duration')].type = 'UInt64';
+      rows.push({ table: 'mcp_resource_invocations', name: 'legacy', type: 'String' });
+      for (let i = rows.length - 1; i >= 0; i--) {
+        if (rows[i].table === 'router_events') rows.splice(i, 1);
+      }
+    });
+
+    const check = await checkSchema({ url: 'http://localhost:8123' });
+
+    expect(check.ok).toBe(false);
+    expect(check.drift).toEqual([
+      {
+        table: 'mcp_resource_invocations',
+        tableMissing: false,
+        missing: [{ name: 'verified_wallet_address', expected: 'Nullable(String)', actual: null }],
+        mistyped: [{ name: 'duration', expected: 'UInt32', actual: 'UInt64' }],
+        extra: [{ name: 'legacy', expected: null, actual: 'String' }],
+      },
+      {
+        table: 'router_events' as TelemetryTable,
+        tableMissing: true,
+        missing: [],
+        extra: [],
+        mistyped: [],
+      },
+    ]);
+    expect(formatSchemaCheck(check)).toBe(
+      [
+        'Schema drift detected:',
+        '  mcp_resource_invocations: missing verified_wallet_address Nullable(String); duration is UInt64, expected UInt32; extra legacy String',
+        '  router_events: table missing',
+        'Run ensureSchema() to apply pending migrations.',
+      ].join('\n'),
+    );
+  });
+});
@@ -2,25 +2,45 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 const mockInsert = vi.fn().mockResolvedValue(undefined);
 const mockPing = vi.fn().mockResolvedValue({ success: true });
+const mockQuery = vi.fn();
+const mockClose = vi.fn().mockResolvedValue(undefined);
 
 vi.mock('@clickhouse/client', () => ({
   createClient: vi.fn(() => ({
     insert: mockInsert,
     ping: mockPing,
+    query: mockQuery,
+    close: mockClose,
   })),
 }));
 
 // Import AFTER mock is set up
-import { initTelemetry } from '../init';
-import { insertInvocation } from '../clickhouse';
+import { initTelemetry, getDefaultRuntime } from '../init';
+import { EXPECTED_COLUMNS } from '../schema';
+import { writeToSink } from '../sinks';
 import type { McpResourceInvocation } from '../types';
 
 const fakeInvocation: McpResourceInvocation = {
   id: 'test-id',
+  trace_id: '0af7651916cd43dd8448eb211c80319c',
+  span_id: 'b7ad6b7169203331',
+  parent_span_id: null,
   x_wallet_address: '0xabc',
   x_client_id: 'client-1',
+  client_type: 'Unknown',
   session_id: 'session-1',
+  mcp_host: null,
   verified_wallet_address: '0xdef',
+  identity_confidence: 'verified-mismatch',
+  identity_violations: [],
+  payment_scheme: null,
+  payment_network: null,
+  payment_asset: null,
+  payment_amount: null,
+  settlement_success: null,
+  settlement_transaction: null,
+  settlement_network: null,
+  settlement_error: null,
   method: 'POST',
   route: '/api/test',
   origin: 'https://example.com',
@@ -28,12 +48,24 @@ const fakeInvocation: McpResourceInvocation = {
   request_content_type: 'application/json',
   request_headers: '{}',
   request_body: '{"query":"test"}',
+  request_body_size: 16,
+  request_body_truncated: false,
+  request_body_sha256: null,
   status_code: 200,
   status_text: 'OK',
   duration: 42,
+  time_to_first_byte: null,
+  stream_duration: null,
+  stream_status: null,
   response_content_type: 'application/json',
   response_headers: '{}',
   response_body: '{"success":true}',
+  response_body_size: 16,
+  response_body_truncated: false,
+  response_body_sha256: null,
+  sample_rate: 1,
+  body_sampled_out: false,
+  attributes: {},
   created_at: new Date('2025-01-01'),
 };
 
@@ -42,7 +74,7 @@ describe('singleton lifecycle', () => {
     vi.clearAllMocks();
   });
 
-  it('initTelemetry sets up client so insertInvocation can use it', () => {
+  it('initTelemetry sets up a ClickHouse sink that writes through the client', () => {
     initTelemetry({
       clickhouse: {
         url: 'http://localhost:8123',
@@ -52,7 +84,7 @@ describe('singleton lifecycle', () => {
       },
     });
 
-    insertInvocation(fakeInvocation);
+    writeToSink(getDefaultRuntime().sink, 'mcp_resource_invocations', [fakeInvocation]);
 
     expect(mockInsert).toHaveBeenCalledOnce();
     expect(mockInsert).toHaveBeenCalledWith({
@@ -62,12 +94,24 @@ describe('singleton lifecycle', () => {
     });
   });
 
-  it('verify: true triggers a ping after init', () => {
+  it('verify: true triggers a ping and a schema check after init', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const columns = Object.entries(EXPECTED_COLUMNS).flatMap(([table, types]) =>
+      Object.entries(types).map(([name, type]) => ({ table, name, type })),
+    );
+    mockQuery.mockResolvedValue({ json: async () => columns });
+
     initTelemetry({
       clickhouse: { url: 'http://localhost:8123' },
       verify: true,
     });
 
     expect(mockPing).toHaveBeenCalledOnce();
+    await vi.waitFor(() =>
+      expect(log).toHaveBeenCalledWith('[telemetry] ClickHouse schema matches'),
+    );
+    expect(mockQuery).toHaveBeenCalledOnce();
+    expect(mockClose).toHaveBeenCalledOnce();
+    log.mockRestore();
   });
 });
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@clickhouse/client', () => ({
+  createClient: vi.fn(() => ({
+    insert: vi.fn().mockResolvedValue(undefined),
+    ping: vi.fn().mockResolvedValue({ success: true }),
+  })),
+}));
+
+import { NextRequest } from 'next/server';
+import { initTelemetry } from '../init';
+import { extractRequestMeta, recordInvocation } from '../telemetry-core';
+import { createConsoleSink, createFanOutSink, createMemorySink } from '../sinks';
+import type { McpResourceInvocation, TelemetrySink } from '../types';
+
+const fakeInvocation = { id: 'row-1', route: '/api/test' } as McpResourceInvocation;
+
+describe('createMemorySink', () => {
+  it('stores rows by table and clears them', async () => {
+    const sink = createMemorySink();
+    await sink.write('mcp_resource_invocations', [fakeInvocation]);
+
+    expect(sink.rows.mcp_resource_invocations).toEqual([fakeInvocation]);
+
+    sink.clear();
+    expect(sink.rows.mcp_resource_invocations).toEqual([]);
+  });
+});
+
+describe('createConsoleSink', () => {
+  it('logs one JSON line per row', async () => {
+    const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await createConsoleSink().write('mcp_resource_invocations', [fakeInvocation, fakeInvocation]);
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(spy).toHaveBeenCalledWith(
+      '[telemetry] mcp_resource_invocations',
+      JSON.stringify(fakeInvocation),
+    );
+    spy.mockRestore();
+  });
+});
+
+describe('createFanOutSink', () => {
+  it('writes to every sink even when one fails, then rejects', async () => {
+    const memory = createMemorySink();
+    const failing: TelemetrySink = { write: () => Promise.reject(new Error('boom')) };
+    const fanOut = createFanOutSink([failing, memory]);
+
+    await expect(fanOut.write('mcp_resource_invocations', [fakeInvocation])).rejects.toThrow(
+      '1 of 2 sinks failed: boom',
+    );
+    expect(memory.rows.mcp_resource_invocations).toEqual([fakeInvocation]);
+  });
+
+  it('ping is healthy only when every sink is', async () => {
+    const healthy: TelemetrySink = { write: async () => {}, ping: async () => true };
+    const unhealthy: TelemetrySink = { write: async () => {}, ping: async () => false };
+
+    expect(await createFanOutSink([healthy, createMemorySink()]).ping!()).toBe(true);
+    expect(await createFanOutSink([healthy, unhealthy]).ping!()).toBe(false);
+  });
+});
+
+describe('initTelemetry with a custom sink', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('routes recorded invocations to the sink without ClickHouse', () => {
+    const sink = createMemorySink();
+    initTelemetry({ sink });
+
+    const meta = extractRequestMeta(new NextRequest('https://example.com/api/sink'));
+    recordInvocation(meta, null, { status: 200, body: null, headers: null, contentType: null });
+
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(1);
+    expect(sink.rows.mcp_resource_invocations[0].route).toBe('/api/sink');
+  });
+});
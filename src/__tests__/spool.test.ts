@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSpoolingSink, replaySpool } from '../spool';
+import { createMemorySink } from '../sinks';
+import type { McpResourceInvocation, TelemetrySink } from '../types';
+
+function row(id: string): McpResourceInvocation {
+  return { id, route: '/api/test' } as McpResourceInvocation;
+}
+
+const failing: TelemetrySink = { write: () => Promise.reject(new Error('ClickHouse down')) };
+
+describe('spool', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'telemetry-spool-'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends failed rows to an NDJSON file per table', async () => {
+    const sink = createSpoolingSink(failing, { dir });
+
+    await sink.write('mcp_resource_invocations', [row('a'), row('b')]);
+
+    const content = await readFile(join(dir, 'mcp_resource_invocations.ndjson'), 'utf8');
+    expect(
+      content
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).id),
+    ).toEqual(['a', 'b']);
+  });
+
+  it('drops rows once the spool is full', async () => {
+    const sink = createSpoolingSink(failing, { dir, maxBytes: 50 });
+
+    await sink.write('mcp_resource_invocations', [row('a')]);
+    await sink.write('mcp_resource_invocations', [row('b')]);
+
+    const content = await readFile(join(dir, 'mcp_resource_invocations.ndjson'), 'utf8');
+    expect(content.trim().split('\n')).toHaveLength(1);
+  });
+
+  it('replaySpool writes spooled rows to the sink and removes the files', async () => {
+    await createSpoolingSink(failing, { dir }).write('mcp_resource_invocations', [row('a')]);
+    const memory = createMemorySink();
+
+    const result = await replaySpool(dir, memory);
+
+    expect(result).toEqual({ replayed: 1, failedFiles: 0 });
+    expect(memory.rows.mcp_resource_invocations.map((r) => r.id)).toEqual(['a']);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('keeps the spool when replay fails', async () => {
+    await createSpoolingSink(failing, { dir }).write('mcp_resource_invocations', [row('a')]);
+
+    const result = await replaySpool(dir, failing);
+
+    expect(result).toEqual({ replayed: 0, failedFiles: 1 });
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('skips corrupt lines, keeps them in a .corrupt file and removes the replay file', async () => {
+    await writeFile(
+      join(dir, 'mcp_resource_invocations.ndjson'),
+      `${JSON.stringify(row('a'))}\n{"id":"b","rou\n${JSON.stringify(row('c'))}\n`,
+    );
+    const memory = createMemorySink();
+
+    const result = await replaySpool(dir, memory);
+
+    expect(result).toEqual({ replayed: 2, failedFiles: 0 });
+    expect(memory.rows.mcp_resource_invocations.map((r) => r.id)).toEqual(['a', 'c']);
+    expect(await readdir(dir)).toEqual(['mcp_resource_invocations.corrupt']);
+    expect(await readFile(join(dir, 'mcp_resource_invocations.corrupt'), 'utf8')).toBe(
+      '{"id":"b","rou\n',
+    );
+    // Nothing left to block the next replay
+    expect(await replaySpool(dir, memory)).toEqual({ replayed: 0, failedFiles: 0 });
+  });
+
+  it('keeps only the rows that were not written when a replay fails part way', async () => {
+    const ids = Array.from({ length: 1500 }, (_, i) => `r${i}`);
+    await writeFile(
+      join(dir, 'mcp_resource_invocations.ndjson'),
+      ids.map((id) => JSON.stringify(row(id))).join('\n') + '\n',
+    );
+    const memory = createMemorySink();
+    let writes = 0;
+    const failsSecond: TelemetrySink = {
+      write: (table, rows) =>
+        ++writes === 1 ? memory.write(table, rows) : Promise.reject(new Error('down')),
+    };
+
+    expect(await replaySpool(dir, failsSecond)).toEqual({ replayed: 1000, failedFiles: 1 });
+    expect(await replaySpool(dir, memory)).toEqual({ replayed: 500, failedFiles: 0 });
+    expect(memory.rows.mcp_resource_invocations.map((r) => r.id)).toEqual(ids);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('replays the spool once the sink recovers', async () => {
+    const memory = createMemorySink();
+    let healthy = false;
+    const flaky: TelemetrySink = {
+      write: (table, rows) =>
+        healthy ? memory.write(table, rows) : Promise.reject(new Error('down')),
+    };
+    const sink = createSpoolingSink(flaky, { dir });
+
+    await sink.write('mcp_resource_invocations', [row('a')]);
+    healthy = true;
+    await sink.write('mcp_resource_invocations', [row('b')]);
+    await sink.flush();
+
+    expect(memory.rows.mcp_resource_invocations.map((r) => r.id).sort()).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const afterCallbacks: Array<() => unknown> = [];
+
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: (callback: () => unknown) => {
+    afterCallbacks.push(callback);
+  },
+}));
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initTelemetry } from '../init';
+import { createMemorySink } from '../sinks';
+import { isStreamingResponse, observeStream } from '../streaming';
+import { withTelemetry } from '../telemetry';
+
+function chunkedStream(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function runAfterCallbacks() {
+  await Promise.all(afterCallbacks.splice(0).map((callback) => callback()));
+}
+
+describe('isStreamingResponse', () => {
+  it('detects event streams and NDJSON', () => {
+    const sse = new Response('data: 1\n\n', { headers: { 'content-type': 'text/event-stream' } });
+    const ndjson = new Response('{}\n', { headers: { 'content-type': 'application/x-ndjson' } });
+    expect(isStreamingResponse(sse)).toBe(true);
+    expect(isStreamingResponse(ndjson)).toBe(true);
+  });
+
+  it('leaves JSON and empty responses alone', () => {
+    expect(isStreamingResponse(Response.json({ ok: true }))).toBe(false);
+    expect(isStreamingResponse(new Response(null, { status: 204 }))).toBe(false);
+  });
+});
+
+describe('observeStream', () => {
+  it('passes chunks through and captures the body on completion', async () => {
+    const { stream, done } = observeStream(
+      chunkedStream(['data: a\n\n', 'data: b\n\n']),
+      'text/event-stream',
+      1024,
+    );
+
+    expect(await new Response(stream).text()).toBe('data: a\n\ndata: b\n\n');
+    const result = await done;
+    expect(result.status).toBe('complete');
+    expect(result.body?.text).toBe('data: a\n\ndata: b\n\n');
+    expect(result.firstByteAt).not.toBeNull();
+  });
+
+  it('reports aborted when the client cancels', async () => {
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode('tick\n'));
+      },
+    });
+    const { stream, done } = observeStream(source, 'text/event-stream', 1024);
+
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    const result = await done;
+    expect(result.status).toBe('aborted');
+    expect(result.body?.text).toBe('tick\n');
+  });
+});
+
+describe('withTelemetry with a streaming response', () => {
+  it('records the row when the stream ends, with stream timing', async () => {
+    const sink = createMemorySink();
+    initTelemetry({ sink });
+
+    const handler = withTelemetry(async () => {
+      return new NextResponse(chunkedStream(['data: 1\n\n', 'data: 2\n\n']), {
+        headers: { 'content-type': 'text/event-stream' },
+      });
+    });
+    const response = await handler(new NextRequest('https://example.com/api/stream'));
+
+    // Nothing is recorded until the client has read the stream
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+    expect(await response.text()).toBe('data: 1\n\ndata: 2\n\n');
+    await runAfterCallbacks();
+
+    const [row] = sink.rows.mcp_resource_invocations;
+    expect(row.stream_status).toBe('complete');
+    expect(row.response_body).toBe('data: 1\n\ndata: 2\n\n');
+    expect(row.time_to_first_byte).toBeGreaterThanOrEqual(0);
+    expect(row.stream_duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('measures stream_duration from the first chunk, not from the handler returning', async () => {
+    const sink = createMemorySink();
+    initTelemetry({ sink });
+
+    const handler = withTelemetry(async () => {
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          controller.enqueue(new TextEncoder().encode('data: late\n\n'));
+          controller.close();
+        },
+      });
+      return new NextResponse(body, { headers: { 'content-type': 'text/event-stream' } });
+    });
+    const response = await handler(new NextRequest('https://example.com/api/slow-stream'));
+    await response.text();
+    await runAfterCallbacks();
+
+    const [row] = sink.rows.mcp_resource_invocations;
+    expect(row.time_to_first_byte).toBeGreaterThanOrEqual(90);
+    expect(row.stream_duration).toBeLessThan(row.time_to_first_byte!);
+  });
+
+  it('returns a plain unsized stream before it has finished', async () => {
+    const sink = createMemorySink();
+    initTelemetry({ sink });
+    const encoder = new TextEncoder();
+    let sendRest!: () => void;
+    const rest = new Promise<void>((resolve) => (sendRest = resolve));
+
+    const handler = withTelemetry(async () => {
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          controller.enqueue(encoder.encode('first,'));
+          await rest;
+          controller.enqueue(encoder.encode('second'));
+          controller.close();
+        },
+      });
+      return new NextResponse(body, { headers: { 'content-type': 'text/plain' } });
+    });
+
+    // Resolves while the second chunk is still pending
+    const response = await handler(new NextRequest('https://example.com/api/plain'));
+    expect(sink.rows.mcp_resource_invocations).toHaveLength(0);
+
+    sendRest();
+    expect(await response.text()).toBe('first,second');
+    await runAfterCallbacks();
+
+    const [row] = sink.rows.mcp_resource_invocations;
+    expect(row.response_body).toBe('first,second');
+    expect(row.stream_status).toBeNull();
+  });
+
+  it('leaves stream columns null for buffered responses', async () => {
+    const sink = createMemorySink();
+    initTelemetry({ sink });
+
+    const handler = withTelemetry(async () => NextResponse.json({ ok: true }));
+    await (await handler(new NextRequest('https://example.com/api/json'))).text();
+    await runAfterCallbacks();
+
+    const [row] = sink.rows.mcp_resource_invocations;
+    expect(row.response_body).toBe('{"ok":true}');
+    expect(row.stream_status).toBeNull();
+    expect(row.time_to_first_byte).toBeNull();
+  });
+});
@@ -12,6 +12,7 @@ vi.mock('@clickhouse/client', () => ({
 import { NextRequest } from 'next/server';
 import { initTelemetry } from '../init';
 import { extractRequestMeta, buildTelemetryContext, recordInvocation } from '../telemetry-core';
+import { EXPECTED_COLUMNS } from '../schema';
 
 // Init once for the module
 initTelemetry({ clickhouse: { url: 'http://localhost:8123' } });
@@ -48,6 +49,7 @@ describe('extractRequestMeta', () => {
     expect(meta.requestContentType).toBe('application/json');
     expect(meta.route).toBe('/api/search');
     expect(meta.method).toBe('POST');
+    expect(meta.clientType).toBe('Unknown');
     expect(meta.requestId).toBeTruthy();
     expect(meta.startTime).toBeGreaterThan(0);
   });
@@ -66,6 +68,13 @@ describe('buildTelemetryContext', () => {
     expect(meta.verifiedWallet).toBe('0xabcd1234');
     expect(ctx.verifiedWallet).toBe('0xabcd1234');
   });
+
+  it('keeps the case of Solana verified wallets', () => {
+    const ctx = buildTelemetryContext(extractRequestMeta(makeRequest('/api/test')));
+    ctx.setVerifiedWallet('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM');
+
+    expect(ctx.verifiedWallet).toBe('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM');
+  });
 });
 
 describe('recordInvocation', () => {
@@ -73,7 +82,7 @@ describe('recordInvocation', () => {
     vi.clearAllMocks();
   });
 
-  it('builds invocation and calls insertInvocation with the right shape', () => {
+  it('builds invocation and writes it to the sink with the right shape', () => {
     const req = makeRequest('/api/data', {
       method: 'POST',
       headers: { 'X-Wallet-Address': '0xWallet' },
@@ -101,4 +110,51 @@ describe('recordInvocation', () => {
     expect(invocation.response_body).toBe('{"ok":true}');
     expect(invocation.duration).toBeGreaterThanOrEqual(0);
   });
+
+  it('cuts string bodies at maxBodyBytes and flags them', () => {
+    initTelemetry({ clickhouse: { url: 'http://localhost:8123' }, maxBodyBytes: 8 });
+    const meta = extractRequestMeta(makeRequest('/api/data', { method: 'POST' }));
+    recordInvocation(meta, '{"query":"long"}', {
+      status: 200,
+      body: '{"ok":true}',
+      headers: null,
+      contentType: 'application/json',
+    });
+    initTelemetry({ clickhouse: { url: 'http://localhost:8123' } });
+
+    const invocation = mockInsert.mock.calls[0][0].values[0];
+    expect(invocation.request_body).toBe('{"query"');
+    expect(invocation.request_body_size).toBe(16);
+    expect(invocation.request_body_truncated).toBe(true);
+    expect(invocation.response_body_size).toBe(11);
+    expect(invocation.response_body_truncated).toBe(true);
+  });
+
+  it('masks body paths before cutting the body', () => {
+    initTelemetry({
+      clickhouse: { url: 'http://localhost:8123' },
+      maxBodyBytes: 40,
+      redact: { bodyPaths: ['password'] },
+    });
+    const meta = extractRequestMeta(makeRequest('/api/login', { method: 'POST' }));
+    const body = JSON.stringify({ password: 'hunter2-secret', filler: 'x'.repeat(100) });
+    recordInvocation(meta, body, { status: 200, body: null, headers: null, contentType: null });
+    initTelemetry({ clickhouse: { url: 'http://localhost:8123' } });
+
+    const invocation = mockInsert.mock.calls[0][0].values[0];
+    expect(invocation.request_body).toBe('{"password":"[REDACTED]","filler":"xxxxx');
+    expect(invocation.request_body).not.toContain('hunter2');
+    expect(invocation.request_body_size).toBe(body.length);
+    expect(invocation.request_body_truncated).toBe(true);
+  });
+
+  it('writes exactly the columns the schema expects', () => {
+    const meta = extractRequestMeta(makeRequest('/api/data'));
+    recordInvocation(meta, null, { status: 200, body: null, headers: null, contentType: null });
+
+    const invocation = mockInsert.mock.calls[0][0].values[0];
+    expect(Object.keys(invocation).sort()).toEqual(
+      Object.keys(EXPECTED_COLUMNS.mcp_resource_invocations).sort(),
+    );
+  });
 });
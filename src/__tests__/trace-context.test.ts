@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initTelemetry } from '../init';
+import { createMemorySink, type MemorySink } from '../sinks';
+import { withFetchTelemetry } from '../fetch';
+import { parseTraceparent, resolveTraceContext } from '../trace-context';
+
+const TRACEPARENT = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+describe('parseTraceparent', () => {
+  it('parses a valid header', () => {
+    expect(parseTraceparent(TRACEPARENT)).toEqual({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      parentSpanId: 'b7ad6b7169203331',
+      flags: '01',
+    });
+  });
+
+  it('rejects invalid headers', () => {
+    expect(parseTraceparent(null)).toBeNull();
+    expect(parseTraceparent('garbage')).toBeNull();
+    expect(parseTraceparent('ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01')).toBeNull();
+    expect(parseTraceparent('00-00000000000000000000000000000000-b7ad6b7169203331-01')).toBeNull();
+    expect(parseTraceparent('00-0af7651916cd43dd8448eb211c80319c-0000000000000000-01')).toBeNull();
+    expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeNull();
+    expect(parseTraceparent(TRACEPARENT.toUpperCase())).toBeNull();
+  });
+
+  it('accepts extra fields from future versions', () => {
+    expect(
+      parseTraceparent('01-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01-extra'),
+    ).not.toBeNull();
+  });
+});
+
+describe('resolveTraceContext', () => {
+  it('continues the caller trace with a new span', () => {
+    const trace = resolveTraceContext(TRACEPARENT, 'vendor=abc');
+    expect(trace.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+    expect(trace.parentSpanId).toBe('b7ad6b7169203331');
+    expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(trace.spanId).not.toBe('b7ad6b7169203331');
+    expect(trace.state).toBe('vendor=abc');
+  });
+
+  it('starts a trace without a valid traceparent', () => {
+    const trace = resolveTraceContext(null, 'vendor=abc');
+    expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(trace.parentSpanId).toBeNull();
+    expect(trace.state).toBeNull();
+  });
+
+  it('uses every hex digit of the ids, without UUID version or variant digits', () => {
+    const traces = Array.from({ length: 64 }, () => resolveTraceContext(null, null));
+    // A UUID-derived id always has '4' at index 12 of the trace id
+    expect(traces.every((trace) => trace.traceId[12] === '4')).toBe(false);
+    expect(traces.every((trace) => /^[0-9a-f]{16}$/.test(trace.spanId))).toBe(true);
+  });
+});
+
+describe('trace propagation', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = createMemorySink();
+    initTelemetry({ sink });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores the trace and passes it on through ctx.fetch', async () => {
+    const upstreamHeaders: Headers[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_input: string, init?: RequestInit) => {
+        upstreamHeaders.push(new Headers(init?.headers));
+        return new Response(null, { status: 204 });
+      }),
+    );
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      await ctx.fetch('https://api.exa.ai/search');
+      return Response.json({ traceId: ctx.traceId });
+    });
+
+    const response = await handler(
+      new Request('https://api.example.com/api/search', {
+        headers: { traceparent: TRACEPARENT, tracestate: 'vendor=abc' },
+      }),
+    );
+    expect(await response.json()).toEqual({ traceId: '0af7651916cd43dd8448eb211c80319c' });
+    await Promise.resolve();
+
+    const [invocation] = sink.rows.mcp_resource_invocations;
+    const [call] = sink.rows.provider_calls;
+    expect(invocation).toMatchObject({
+      trace_id: '0af7651916cd43dd8448eb211c80319c',
+      parent_span_id: 'b7ad6b7169203331',
+    });
+    expect(call).toMatchObject({
+      trace_id: invocation.trace_id,
+      parent_span_id: invocation.span_id,
+    });
+    expect(upstreamHeaders[0].get('traceparent')).toBe(
+      `00-0af7651916cd43dd8448eb211c80319c-${call.span_id}-01`,
+    );
+    expect(upstreamHeaders[0].get('tracestate')).toBe('vendor=abc');
+  });
+
+  it('keeps a traceparent the handler set itself', async () => {
+    const upstreamHeaders: Headers[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_input: string, init?: RequestInit) => {
+        upstreamHeaders.push(new Headers(init?.headers));
+        return new Response(null, { status: 204 });
+      }),
+    );
+    const handler = withFetchTelemetry(async (_req, ctx) => {
+      await ctx.fetch('https://api.exa.ai/search', { headers: { traceparent: TRACEPARENT } });
+      return new Response('ok');
+    });
+
+    await (await handler(new Request('https://api.example.com/api/search'))).text();
+
+    expect(upstreamHeaders[0].get('traceparent')).toBe(TRACEPARENT);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Custom attributes handlers attach to their row — provider used, result
+ * count, cache hit — stored in the `attributes` Map(String, String) column.
+ */
+
+import type { TelemetryAttributes } from './types';
+
+/** Attributes kept per row; later ones are dropped. */
+export const MAX_ATTRIBUTES = 64;
+/** Longer keys are dropped, longer values cut. */
+export const MAX_ATTRIBUTE_KEY_LENGTH = 128;
+export const MAX_ATTRIBUTE_VALUE_LENGTH = 1024;
+
+/** Key a tag is stored under, with the value 'true'. */
+export const TAG_PREFIX = 'tag.';
+
+/**
+ * setAttribute()/addTags() writing into `attributes`. Never throws — bad
+ * keys and attributes past the limit are dropped, long values cut.
+ */
+export function createAttributeSetters(attributes: Record<string, string>): TelemetryAttributes {
+  const set = (key: string, value: string) => {
+    if (typeof key !== 'string' || key === '' || key.length > MAX_ATTRIBUTE_KEY_LENGTH) return;
+    if (!Object.hasOwn(attributes, key) && Object.keys(attributes).length >= MAX_ATTRIBUTES) return;
+    attributes[key] = value.slice(0, MAX_ATTRIBUTE_VALUE_LENGTH);
+  };
+
+  return {
+    setAttribute: (key, value) => {
+      if (value === null || value === undefined) return;
+      set(key, String(value));
+    },
+    addTags: (...tags) => {
+      for (const tag of tags) {
+        if (typeof tag === 'string' && tag !== '') set(`${TAG_PREFIX}${tag}`, 'true');
+      }
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * In-process batching for telemetry writes.
+ *
+ * ClickHouse creates one part per insert, so a row per request is expensive
+ * on busy servers. The batching sink buffers rows per table and hands them to
+ * the wrapped sink in one write when any limit is reached (rows, bytes, age)
+ * or when flush() is called.
+ */
+
+import type { BatchConfig, TelemetrySink, TelemetryTable, TelemetryTables } from './types';
+
+const DEFAULT_MAX_ROWS = 500;
+const DEFAULT_MAX_BYTES = 1_000_000;
+const DEFAULT_MAX_AGE_MS = 1_000;
+
+const encoder = new TextEncoder();
+
+interface TableBuffer {
+  rows: unknown[];
+  bytes: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface BatchingSink extends TelemetrySink {
+  flush(): Promise<void>;
+}
+
+/**
+ * Wrap a sink so writes are buffered and sent in batches.
+ *
+ * write() resolves as soon as the rows are buffered. Failures of the
+ * underlying batch write are logged, never thrown — same as an unbatched write.
+ */
+export function createBatchingSink(inner: TelemetrySink, config: BatchConfig = {}): BatchingSink {
+  const maxRows = config.maxRows ?? DEFAULT_MAX_ROWS;
+  const maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxAgeMs = config.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+
+  const buffers = new Map<TelemetryTable, TableBuffer>();
+  const inFlight = new Set<Promise<void>>();
+
+  function send(table: TelemetryTable): void {
+    const buffer = buffers.get(table);
+    if (!buffer || buffer.rows.length === 0) return;
+    buffers.delete(table);
+    if (buffer.timer) clearTimeout(buffer.timer);
+
+    const write = Promise.resolve()
+      .then(() => inner.write(table, buffer.rows as TelemetryTables[typeof table][]))
+      .catch((error: unknown) => {
+        try {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(
+            `[telemetry] Batch write of ${buffer.rows.length} rows to ${table} failed:`,
+            message,
+          );
+        } catch {
+          // Absolutely nothing escapes
+        }
+      })
+      .finally(() => inFlight.delete(write));
+    inFlight.add(write);
+  }
+
+  return {
+    async write<T extends TelemetryTable>(table: T, rows: TelemetryTables[T][]): Promise<void> {
+      let buffer = buffers.get(table);
+      if (!buffer) {
+        buffer = { rows: [], bytes: 0, timer: null };
+        buffers.set(table, buffer);
+      }
+
+      for (const row of rows) {
+        buffer.rows.push(row);
+        buffer.bytes += encoder.encode(JSON.stringify(row)).byteLength;
+      }
+
+      if (buffer.rows.length >= maxRows || buffer.bytes >= maxBytes) {
+        send(table);
+        return;
+      }
+
+      if (!buffer.timer) {
+        buffer.timer = setTimeout(() => send(table), maxAgeMs);
+        // Don't keep a long-running process alive just to flush telemetry
+        buffer.timer.unref?.();
+      }
+    },
+
+    ping: inner.ping?.bind(inner),
+
+    async flush(): Promise<void> {
+      for (const table of [...buffers.keys()]) {
+        send(table);
+      }
+      await Promise.all(inFlight);
+      await inner.flush?.();
+    },
+  };
+}
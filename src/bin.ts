@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import { runCli } from './cli';
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  env: process.env,
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  signal: controller.signal,
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,192 @@
+/**
+ * Bounded, binary-safe body capture.
+ *
+ * Text bodies are kept up to a byte limit and flagged when truncated.
+ * Non-text bodies (images, downloads, protobuf, ...) are never stored as
+ * text — only their size and, on Node, SHA-256 digest are recorded. Bodies
+ * are never read past the limit from a clone; longer ones are observed as
+ * they are sent (see instrument.ts) or sized from Content-Length.
+ */
+
+import { createHash, type Hash } from 'crypto';
+
+/** Default max bytes of a body stored per row. */
+export const DEFAULT_MAX_BODY_BYTES = 262_144;
+
+export interface CapturedBody {
+  /** Captured text, cut at the byte limit. Null for binary bodies. */
+  text: string | null;
+  /** Full body size in bytes. Null when reading stopped at the limit and no Content-Length gave it. */
+  size: number | null;
+  /** True when `text` holds less than the full body. */
+  truncated: boolean;
+  /**
+   * Hex SHA-256 of the full body, for binary bodies only. Null on the edge
+   * build, and for a request body abandoned past the limit (see cut()).
+   */
+  sha256: string | null;
+}
+
+const TEXT_TYPES = [
+  /^text\//,
+  /^application\/(?:json|xml|javascript|graphql|x-www-form-urlencoded|x-ndjson)\b/,
+  /\+(?:json|xml)\b/,
+];
+
+/**
+ * Whether a content type should be captured as text.
+ * A missing content type is treated as text.
+ */
+export function isTextContentType(contentType: string | null): boolean {
+  if (!contentType) return true;
+  const type = contentType.toLowerCase();
+  return TEXT_TYPES.some((pattern) => pattern.test(type));
+}
+
+export interface BodyCollector {
+  add(chunk: Uint8Array): void;
+  /** The captured body so far, or null when no bytes were seen. */
+  finish(): CapturedBody | null;
+  /**
+   * The captured part of a body that was abandoned past the limit, with the
+   * full size if known. Binary bodies get no digest — it would be partial.
+   */
+  cut(size: number | null): CapturedBody;
+}
+
+/**
+ * Incrementally capture a body chunk by chunk — keeps at most `maxBytes`
+ * of text, or only a running digest for non-text content types.
+ */
+export function createBodyCollector(contentType: string | null, maxBytes: number): BodyCollector {
+  const binary = !isTextContentType(contentType);
+  const hash = binary ? startDigest() : null;
+  const kept: Uint8Array[] = [];
+  let keptBytes = 0;
+  let size = 0;
+
+  return {
+    add(chunk) {
+      size += chunk.byteLength;
+      if (binary) {
+        hash?.update(chunk);
+      } else if (keptBytes < maxBytes) {
+        const slice = chunk.subarray(0, maxBytes - keptBytes);
+        kept.push(slice);
+        keptBytes += slice.byteLength;
+      }
+    },
+
+    finish() {
+      if (size === 0) return null;
+      if (binary) {
+        return { text: null, size, truncated: false, sha256: hash?.digest('hex') ?? null };
+      }
+      return {
+        text: new TextDecoder().decode(concat(kept, keptBytes)),
+        size,
+        truncated: size > keptBytes,
+        sha256: null,
+      };
+    },
+
+    cut(fullSize) {
+      return {
+        text: binary ? null : new TextDecoder().decode(concat(kept, keptBytes)),
+        size: fullSize,
+        truncated: !binary,
+        sha256: null,
+      };
+    },
+  };
+}
+
+/** A running SHA-256, or null where there is none (the edge build). */
+function startDigest(): Hash | null {
+  try {
+    return createHash('sha256');
+  } catch {
+    return null;
+  }
+}
+
+export interface PeekedBody {
+  body: CapturedBody | null;
+  /** False when the body went past the limit and reading stopped. */
+  complete: boolean;
+}
+
+/**
+ * Read a Request or Response body from a clone, up to `maxBytes`. Past the
+ * limit the clone is cancelled, so the tee doesn't buffer the rest of the
+ * body for the original — the handler or client reads it as usual. The
+ * size then comes from Content-Length, when there is one.
+ */
+export async function peekBody(
+  source: Request | Response,
+  contentType: string | null,
+  maxBytes: number,
+): Promise<PeekedBody> {
+  const stream = source.clone().body;
+  if (!stream) return { body: null, complete: true };
+
+  const collector = createBodyCollector(contentType, maxBytes);
+  const reader = stream.getReader();
+  let read = 0;
+  while (read <= maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return { body: collector.finish(), complete: true };
+    read += value.byteLength;
+    collector.add(value);
+  }
+  reader.cancel().catch(() => {
+    // The clone is abandoned either way
+  });
+  return { body: collector.cut(contentLength(source.headers)), complete: false };
+}
+
+/**
+ * Capture a Request or Response body, reading at most `maxBytes` of it.
+ * Returns null when there is no body.
+ */
+export async function captureBody(
+  source: Request | Response,
+  contentType: string | null,
+  maxBytes: number,
+): Promise<CapturedBody | null> {
+  return (await peekBody(source, contentType, maxBytes)).body;
+}
+
+/**
+ * Apply the byte limit to a body the caller already has as a string
+ * (e.g. a JSON body the route builder serialized itself).
+ */
+export function captureText(text: string | null, maxBytes: number): CapturedBody | null {
+  if (text === null) return null;
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.byteLength <= maxBytes) {
+    return { text, size: bytes.byteLength, truncated: false, sha256: null };
+  }
+  return {
+    text: new TextDecoder().decode(bytes.subarray(0, maxBytes)),
+    size: bytes.byteLength,
+    truncated: true,
+    sha256: null,
+  };
+}
+
+function contentLength(headers: Headers): number | null {
+  const value = headers.get('content-length');
+  if (value === null || !/^\d+$/.test(value.trim())) return null;
+  return Number(value);
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
@@ -0,0 +1,299 @@
+/**
+ * agentcash-telemetry CLI — operational commands for the telemetry tables.
+ *
+ * Reads the TELEM_CLICKHOUSE_* env var convention from the spec:
+ *   TELEM_CLICKHOUSE_URL (required), TELEM_CLICKHOUSE_DATABASE,
+ *   TELEM_CLICKHOUSE_USERNAME, TELEM_CLICKHOUSE_PASSWORD
+ *
+ * The bin entry (bin.ts) just calls runCli with process args.
+ */
+
+import { parseArgs } from 'util';
+import { createClickhouseClient, createClickhouseSink } from './clickhouse';
+import { checkSchema, ensureSchema, formatSchemaCheck } from './schema';
+import { replaySpool } from './spool';
+import type { ClickhouseConfig } from './types';
+
+const USAGE = `Usage: agentcash-telemetry <command> [options]
+
+Commands:
+  ping                      Check the ClickHouse connection
+  migrate                   Create tables and apply pending migrations
+  schema diff               Compare live tables to the expected columns
+  tail [filters]            Follow new invocations
+      --route <pattern>     Route, * matches anything (e.g. /api/*)
+      --wallet <address>    Claimed or verified wallet
+      --client <id>         X-Client-ID
+      --since <minutes>     Start this far back (default: 5)
+      --interval <ms>       Poll interval (default: 2000)
+  replay --dir <dir>        Re-send spooled rows (default dir: $TELEM_SPOOL_DIR)
+
+Environment:
+  TELEM_CLICKHOUSE_URL, TELEM_CLICKHOUSE_DATABASE,
+  TELEM_CLICKHOUSE_USERNAME, TELEM_CLICKHOUSE_PASSWORD`;
+
+export interface CliIo {
+  env: Record<string, string | undefined>;
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  /** Stops `tail`. Defaults to never. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a CLI command. Resolves to the process exit code.
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        route: { type: 'string' },
+        wallet: { type: 'string' },
+        client: { type: 'string' },
+        since: { type: 'string' },
+        interval: { type: 'string' },
+        dir: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error: unknown) {
+    io.stderr(error instanceof Error ? error.message : String(error));
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  const { positionals, values } = parsed;
+  const command = positionals.join(' ');
+  if (values.help || command === '' || command === 'help') {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  const config = clickhouseConfigFromEnv(io.env);
+  if (!config) {
+    io.stderr('TELEM_CLICKHOUSE_URL is not set.');
+    return 2;
+  }
+
+  try {
+    switch (command) {
+      case 'ping':
+        return await ping(config, io);
+      case 'migrate':
+        return await migrate(config, io);
+      case 'schema diff':
+        return await schemaDiff(config, io);
+      case 'tail': {
+        const sinceMinutes = parseCount(values.since, 5, 0);
+        const intervalMs = parseCount(values.interval, 2_000, 1);
+        if (sinceMinutes === null || intervalMs === null) {
+          io.stderr(
+            sinceMinutes === null
+              ? `--since must be a whole number of minutes, got "${values.since}"`
+              : `--interval must be a whole number of milliseconds of at least 1, got "${values.interval}"`,
+          );
+          return 2;
+        }
+        return await tail(config, io, {
+          route: values.route,
+          wallet: values.wallet?.toLowerCase(),
+          client: values.client,
+          sinceMinutes,
+          intervalMs,
+        });
+      }
+      case 'replay':
+        return await replay(config, io, values.dir ?? io.env.TELEM_SPOOL_DIR);
+      default:
+        io.stderr(`Unknown command: ${command}`);
+        io.stderr(USAGE);
+        return 2;
+    }
+  } catch (error: unknown) {
+    io.stderr(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+/** A flag's whole-number value, its default when unset, or null when invalid or below `min`. */
+function parseCount(value: string | undefined, fallback: number, min: number): number | null {
+  if (value === undefined) return fallback;
+  if (!/^\d+$/.test(value.trim())) return null;
+  const count = Number(value);
+  return count >= min && count <= 0xffffffff ? count : null;
+}
+
+function clickhouseConfigFromEnv(env: Record<string, string | undefined>): ClickhouseConfig | null {
+  if (!env.TELEM_CLICKHOUSE_URL) return null;
+  return {
+    url: env.TELEM_CLICKHOUSE_URL,
+    database: env.TELEM_CLICKHOUSE_DATABASE,
+    username: env.TELEM_CLICKHOUSE_USERNAME,
+    password: env.TELEM_CLICKHOUSE_PASSWORD,
+  };
+}
+
+async function ping(config: ClickhouseConfig, io: CliIo): Promise<number> {
+  const client = createClickhouseClient(config);
+  try {
+    const result = await client.ping();
+    if (!result.success) {
+      io.stderr('ClickHouse ping failed');
+      return 1;
+    }
+    io.stdout(`ClickHouse reachable at ${config.url}`);
+    return 0;
+  } finally {
+    await client.close();
+  }
+}
+
+async function migrate(config: ClickhouseConfig, io: CliIo): Promise<number> {
+  const { from, to, applied } = await ensureSchema(config);
+  if (applied.length === 0) {
+    io.stdout(`Schema is up to date (v${to})`);
+  } else {
+    io.stdout(`Migrated v${from} → v${to} (applied ${applied.join(', ')})`);
+  }
+  return 0;
+}
+
+async function schemaDiff(config: ClickhouseConfig, io: CliIo): Promise<number> {
+  const check = await checkSchema(config);
+  if (check.ok) {
+    io.stdout(formatSchemaCheck(check));
+    return 0;
+  }
+  io.stderr(formatSchemaCheck(check));
+  return 1;
+}
+
+const TAIL_PAGE_ROWS = 1_000;
+
+interface TailOptions {
+  route?: string;
+  wallet?: string;
+  client?: string;
+  sinceMinutes: number;
+  intervalMs: number;
+}
+
+interface TailRow {
+  id: string;
+  created_at: string;
+  method: string;
+  route: string;
+  status_code: number;
+  duration: number;
+  x_wallet_address: string | null;
+  verified_wallet_address: string | null;
+  x_client_id: string | null;
+}
+
+async function tail(config: ClickhouseConfig, io: CliIo, options: TailOptions): Promise<number> {
+  const client = createClickhouseClient(config);
+  const filters: string[] = [];
+  const params: Record<string, unknown> = { since: options.sinceMinutes };
+  if (options.route) {
+    filters.push('route LIKE {route:String}');
+    params.route = options.route.replace(/[%_]/g, '\\$&').replace(/\*/g, '%');
+  }
+  if (options.wallet) {
+    filters.push(
+      '(x_wallet_address = {wallet:String} OR verified_wallet_address = {wallet:String})',
+    );
+    params.wallet = options.wallet;
+  }
+  if (options.client) {
+    filters.push('x_client_id = {client:String}');
+    params.client = options.client;
+  }
+
+  // (created_at, id) of the last printed row — the table's sort key, so rows
+  // sharing a timestamp are paged through rather than fetched again
+  let cursor: { createdAt: string; id: string } | null = null;
+
+  try {
+    while (!io.signal?.aborted) {
+      const after: { createdAt: string; id: string } | null = cursor;
+      const window =
+        after === null
+          ? 'created_at > now64(3) - INTERVAL {since:UInt32} MINUTE'
+          : '(created_at, id) > ({cursor:DateTime64(3)}, {cursorId:String})';
+      const result = await client.query({
+        query: `SELECT id, created_at, method, route, status_code, duration,
+            x_wallet_address, verified_wallet_address, x_client_id
+          FROM mcp_resource_invocations
+          WHERE ${[window, ...filters].join(' AND ')}
+          ORDER BY created_at, id
+          LIMIT ${TAIL_PAGE_ROWS}`,
+        query_params:
+          after === null ? params : { ...params, cursor: after.createdAt, cursorId: after.id },
+        format: 'JSONEachRow',
+      });
+
+      const rows: TailRow[] = await result.json<TailRow>();
+      for (const row of rows) {
+        io.stdout(formatTailRow(row));
+      }
+      const last = rows.at(-1);
+      if (last) cursor = { createdAt: last.created_at, id: last.id };
+
+      // A full page means more rows are waiting — fetch them without sleeping
+      if (rows.length === TAIL_PAGE_ROWS) continue;
+      await sleep(options.intervalMs, io.signal);
+    }
+    return 0;
+  } finally {
+    await client.close();
+  }
+}
+
+function formatTailRow(row: TailRow): string {
+  const wallet = row.verified_wallet_address ?? row.x_wallet_address ?? '-';
+  return [
+    row.created_at,
+    row.method,
+    row.route,
+    row.status_code,
+    `${row.duration}ms`,
+    wallet,
+    row.x_client_id ?? '-',
+  ].join('  ');
+}
+
+async function replay(
+  config: ClickhouseConfig,
+  io: CliIo,
+  dir: string | undefined,
+): Promise<number> {
+  if (!dir) {
+    io.stderr('replay needs --dir or TELEM_SPOOL_DIR.');
+    return 2;
+  }
+  const result = await replaySpool(dir, createClickhouseSink(config));
+  io.stdout(`Replayed ${result.replayed} rows from ${dir}`);
+  if (result.failedFiles > 0) {
+    io.stderr(`${result.failedFiles} spool files failed and were kept`);
+    return 1;
+  }
+  return 0;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // Remove the listener when the timer wins, so a long tail doesn't pile them up
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
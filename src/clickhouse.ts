@@ -1,16 +1,14 @@
 import { createClient } from '@clickhouse/client';
-import type { McpResourceInvocation, TelemetryConfig } from './types';
+import type { ClickhouseConfig, TelemetrySink, TelemetryTable, TelemetryTables } from './types';
 
-let clickhouseClient: ReturnType<typeof createClient> | null = null;
-
-const TABLE = 'mcp_resource_invocations';
+export type ClickhouseClient = ReturnType<typeof createClient>;
 
 /**
- * Initialize the ClickHouse client singleton.
+ * Create a ClickHouse client with serverless-safe defaults.
  * createClient() is synchronous — no async needed.
  */
-export function initClickhouse(config: TelemetryConfig['clickhouse']): void {
-  clickhouseClient = createClient({
+export function createClickhouseClient(config: ClickhouseConfig): ClickhouseClient {
+  return createClient({
     url: config.url,
     database: config.database ?? 'default',
     username: config.username ?? 'default',
@@ -24,60 +22,24 @@ export function initClickhouse(config: TelemetryConfig['clickhouse']): void {
 }
 
 /**
- * Ping ClickHouse to verify the connection. Fire-and-forget, logs result.
+ * Wrap a client as a TelemetrySink. Each write is one JSONEachRow insert.
  */
-export function pingClickhouse(): void {
-  if (!clickhouseClient) {
-    console.error('[telemetry] Cannot verify: ClickHouse client not initialized.');
-    return;
-  }
-  clickhouseClient
-    .ping()
-    .then((result) => {
-      if (result.success) {
-        console.log('[telemetry] ClickHouse connected');
-      } else {
-        console.error('[telemetry] ClickHouse ping failed');
-      }
-    })
-    .catch((error: unknown) => {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error('[telemetry] ClickHouse ping failed:', message);
-    });
+function sinkForClient(client: ClickhouseClient): TelemetrySink {
+  return {
+    write<T extends TelemetryTable>(table: T, rows: TelemetryTables[T][]): Promise<void> {
+      return client.insert({ table, values: rows, format: 'JSONEachRow' }).then(() => undefined);
+    },
+    ping(): Promise<boolean> {
+      return client.ping().then((result) => result.success);
+    },
+  };
 }
 
 /**
- * Fire-and-forget insert into mcp_resource_invocations.
- * Wrapped in try/catch — never throws, never blocks.
+ * Create a ClickHouse sink with its own client. Each runtime (initTelemetry,
+ * every createTelemetry instance) builds one, so they never share a client.
+ * Use this to combine ClickHouse with other sinks via createFanOutSink.
  */
-export function insertInvocation(data: McpResourceInvocation): void {
-  try {
-    if (!clickhouseClient) {
-      console.error('[telemetry] ClickHouse client not initialized. Call initTelemetry() first.');
-      return;
-    }
-
-    // Fire and forget — do NOT await
-    clickhouseClient
-      .insert<McpResourceInvocation>({
-        table: TABLE,
-        values: [data],
-        format: 'JSONEachRow',
-      })
-      .catch((error: unknown) => {
-        try {
-          const message = error instanceof Error ? error.message : String(error);
-          console.error('[telemetry] ClickHouse insert failed:', message);
-        } catch {
-          // Absolutely nothing escapes
-        }
-      });
-  } catch (error: unknown) {
-    try {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error('[telemetry] ClickHouse insert threw synchronously:', message);
-    } catch {
-      // Absolutely nothing escapes
-    }
-  }
+export function createClickhouseSink(config: ClickhouseConfig): TelemetrySink {
+  return sinkForClient(createClickhouseClient(config));
 }
@@ -0,0 +1,59 @@
+/**
+ * Client Registry — maps X-Client-ID values to the client_type label
+ * written on every invocation row.
+ *
+ * Mirrors the spec's classification rules so dashboards can group by
+ * client_type instead of re-implementing the CASE expression.
+ */
+
+/** Registered X-Client-ID values and their labels (see docs/telemetry-spec.md). */
+export const DEFAULT_CLIENT_REGISTRY: Readonly<Record<string, string>> = {
+  poncho: 'Poncho',
+  'x402scan-mcp': 'MCP',
+  'stablestudio-web': 'StableStudio',
+  'x402scan-web': 'x402scan Web',
+};
+
+export const UNKNOWN_CLIENT_TYPE = 'Unknown';
+
+const WALLET_SHAPED = /^0x[0-9a-fA-F]{40}$/;
+
+export interface ClientSignals {
+  clientId: string | null;
+  origin: string;
+  referer: string | null;
+}
+
+/**
+ * Derive the client_type label. First match wins:
+ *
+ * 1. Registered X-Client-ID (go-forward rule)
+ * 2. Historical fallbacks for clients that predate the registry:
+ *    stablestudio origin, wallet-shaped X-Client-ID (old MCP), x402scan-mcp referer
+ * 3. 'Unknown'
+ */
+export function classifyClient(
+  signals: ClientSignals,
+  registry: Readonly<Record<string, string>> = DEFAULT_CLIENT_REGISTRY,
+): string {
+  const { clientId, origin, referer } = signals;
+
+  if (clientId && Object.prototype.hasOwnProperty.call(registry, clientId)) {
+    return registry[clientId];
+  }
+
+  if (origin.includes('stablestudio')) return 'StableStudio';
+  if (clientId && WALLET_SHAPED.test(clientId)) return 'MCP';
+  if (referer?.startsWith('x402scan-mcp')) return 'MCP';
+
+  return UNKNOWN_CLIENT_TYPE;
+}
+
+/**
+ * Merge app-registered clients over the defaults.
+ */
+export function buildClientRegistry(
+  clients?: Record<string, string>,
+): Readonly<Record<string, string>> {
+  return clients ? { ...DEFAULT_CLIENT_REGISTRY, ...clients } : DEFAULT_CLIENT_REGISTRY;
+}
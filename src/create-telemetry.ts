@@ -0,0 +1,54 @@
+/**
+ * Instance-scoped telemetry: each createTelemetry() call has its own sink,
+ * ClickHouse client, origin and settings, so several servers (or tests) can
+ * record to different places in one process.
+ *
+ * initTelemetry() and the top-level wrappers remain the default instance.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import { withTelemetry } from './telemetry';
+import { createRouteBuilder, type RouteBuilderOptions } from './route-builder';
+import { withSiwxTelemetry, type SiwxHandler } from './siwx';
+import { createTelemetryInstance, type TelemetryInstance } from './instance';
+import type { TelemetryConfig, TelemetryContext } from './types';
+
+export interface Telemetry extends TelemetryInstance {
+  /** withTelemetry bound to this instance. */
+  withTelemetry(
+    handler: (request: NextRequest, ctx: TelemetryContext) => Promise<NextResponse>,
+  ): (request: NextRequest) => Promise<NextResponse>;
+  /** createRouteBuilder bound to this instance. Paid routes need @x402/next, zod and @x402/extensions. */
+  createRouteBuilder(
+    options?: Omit<RouteBuilderOptions, 'telemetry'>,
+  ): ReturnType<typeof createRouteBuilder>;
+  /** withSiwxTelemetry bound to this instance. Needs @x402/extensions. */
+  withSiwxTelemetry(handler: SiwxHandler): (request: NextRequest) => Promise<NextResponse>;
+}
+
+/**
+ * Create a telemetry instance. Takes the same config as initTelemetry() but
+ * leaves the default instance untouched.
+ *
+ * ```typescript
+ * import { createTelemetry } from '@agentcash/telemetry';
+ *
+ * export const telemetry = createTelemetry({ clickhouse: { url: process.env.TELEM_CLICKHOUSE_URL! } });
+ *
+ * export const POST = telemetry.withTelemetry(async (request, ctx) => { ... });
+ * export const route = telemetry.createRouteBuilder({ x402Server });
+ * export const plugin = telemetry.createPlugin();
+ * ```
+ *
+ * The builder and SIWX peers are loaded on first use, so this entrypoint
+ * still works without them installed.
+ */
+export function createTelemetry(config: TelemetryConfig): Telemetry {
+  const telemetry: Telemetry = {
+    ...createTelemetryInstance(config),
+    withTelemetry: (handler) => withTelemetry(handler, { telemetry }),
+    createRouteBuilder: (options) => createRouteBuilder({ ...options, telemetry }),
+    withSiwxTelemetry: (handler) => withSiwxTelemetry(handler, { telemetry }),
+  };
+  return telemetry;
+}
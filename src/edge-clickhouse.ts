@@ -0,0 +1,123 @@
+/**
+ * Edge build replacement for `@clickhouse/client`: a fetch-based client for
+ * the ClickHouse HTTP interface covering what this package uses — JSONEachRow
+ * inserts and queries, commands, ping and close.
+ *
+ * Swapped in by tsup.config.ts; never imported directly.
+ */
+
+export interface ClickhouseClientOptions {
+  url: string;
+  database?: string;
+  username?: string;
+  password?: string;
+  /** Milliseconds before a request is aborted. Default: 30 000. */
+  request_timeout?: number;
+  /** Ignored — fetch manages its own connections. */
+  keep_alive?: { enabled: boolean };
+}
+
+interface QueryParams {
+  query: string;
+  query_params?: Record<string, unknown>;
+  format?: 'JSONEachRow';
+}
+
+export interface EdgeClickhouseClient {
+  insert(params: { table: string; values: unknown[]; format: 'JSONEachRow' }): Promise<void>;
+  query(params: QueryParams): Promise<{ json<T>(): Promise<T[]> }>;
+  command(params: { query: string }): Promise<void>;
+  ping(): Promise<{ success: boolean }>;
+  close(): Promise<void>;
+}
+
+export function createClient(options: ClickhouseClientOptions): EdgeClickhouseClient {
+  const baseUrl = options.url.replace(/\/+$/, '');
+  const timeout = options.request_timeout ?? 30_000;
+  const headers: Record<string, string> = {
+    'X-ClickHouse-User': options.username ?? 'default',
+    'X-ClickHouse-Key': options.password ?? '',
+  };
+
+  async function post(
+    query: string,
+    body: string | null,
+    params: Record<string, string> = {},
+  ): Promise<Response> {
+    const search = new URLSearchParams({
+      database: options.database ?? 'default',
+      ...params,
+    });
+    // Statements go in the body — except inserts, whose body is the rows
+    if (body !== null) search.set('query', query);
+    const response = await fetch(`${baseUrl}/?${search}`, {
+      method: 'POST',
+      headers,
+      body: body ?? query,
+      signal: AbortSignal.timeout(timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`ClickHouse HTTP ${response.status}: ${(await response.text()).trim()}`);
+    }
+    return response;
+  }
+
+  return {
+    async insert({ table, values }) {
+      if (values.length === 0) return;
+      const rows = values.map((row) => JSON.stringify(row)).join('\n');
+      await post(`INSERT INTO ${table} FORMAT JSONEachRow`, rows, {
+        // Dates serialize as ISO strings
+        date_time_input_format: 'best_effort',
+      });
+    },
+
+    async query({ query, query_params }) {
+      const params = Object.fromEntries(
+        Object.entries(query_params ?? {}).map(([name, value]) => [
+          `param_${name}`,
+          formatParam(value),
+        ]),
+      );
+      const response = await post(`${query} FORMAT JSONEachRow`, null, params);
+      const text = await response.text();
+      return {
+        async json<T>() {
+          return text
+            .split('\n')
+            .filter((line) => line.trim() !== '')
+            .map((line) => JSON.parse(line) as T);
+        },
+      };
+    },
+
+    async command({ query }) {
+      await (await post(query, null)).text();
+    },
+
+    async ping() {
+      try {
+        const response = await fetch(`${baseUrl}/ping`, { signal: AbortSignal.timeout(timeout) });
+        return { success: response.ok };
+      } catch {
+        return { success: false };
+      }
+    },
+
+    async close() {
+      // Nothing pooled to release
+    },
+  };
+}
+
+/** Format a query parameter value the way ClickHouse parses it (strings raw, arrays quoted). */
+function formatParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (typeof item === 'string' ? quote(item) : formatParam(item))).join(',')}]`;
+  }
+  return String(value);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
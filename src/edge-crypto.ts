@@ -0,0 +1,16 @@
+/**
+ * Edge build replacement for the `crypto` imports of the core modules, built
+ * on Web Crypto. Only what the edge bundle uses: randomUUID, and a
+ * createHash that throws — Web Crypto's digest() is one-shot and async, and
+ * body capture hashes chunk by chunk, so edge rows leave the digest out.
+ *
+ * Swapped in by tsup.config.ts; never imported directly.
+ */
+
+export function randomUUID(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+export function createHash(algorithm: string): never {
+  throw new Error(`[telemetry] createHash('${algorithm}') is not available on the edge runtime`);
+}
@@ -0,0 +1,24 @@
+/**
+ * Edge build replacement for spool.ts. Edge runtimes have no filesystem, so
+ * `spool` is ignored (with a warning) and rows go straight to the sink.
+ *
+ * Swapped in by tsup.config.ts; never imported directly.
+ */
+
+import type { SpoolReplayResult, SpoolingSink } from './spool';
+import type { SpoolConfig, TelemetrySink } from './types';
+
+export function createSpoolingSink(inner: TelemetrySink, config: SpoolConfig): SpoolingSink {
+  console.warn(
+    `[telemetry] Spooling to ${config.dir} needs a filesystem — disabled on the edge runtime.`,
+  );
+  return {
+    write: (table, rows) => inner.write(table, rows),
+    ping: inner.ping ? () => inner.ping!() : undefined,
+    flush: () => Promise.resolve(),
+  };
+}
+
+export async function replaySpool(): Promise<SpoolReplayResult> {
+  return { replayed: 0, failedFiles: 0 };
+}
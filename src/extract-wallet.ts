@@ -1,9 +1,12 @@
+import { decodePaymentHeader, normalizeAddress, readPaymentHeader } from './payment-header';
+
 /**
  * Extract verified wallet address from x402 payment headers.
  *
  * Checks multiple sources in priority order:
  * 1. x-payer-address — injected by @x402/next's withX402 after verification (highest confidence)
  * 2. PAYMENT-SIGNATURE / X-PAYMENT — decode the payment header directly
+ *    (EVM EIP-3009 and Permit2, Solana TransferChecked — see decodePaymentHeader)
  *
  * If the handler is executing, withX402 has already verified the payment signature.
  * For manual x402 flows, the app verifies before calling business logic.
@@ -14,30 +17,13 @@ export function extractVerifiedWallet(headers: Headers): string | null {
     // 1. x-payer-address: injected by @x402/next's withX402 after verification
     const payerAddress = headers.get('x-payer-address');
     if (payerAddress) {
-      return payerAddress.toLowerCase();
+      return normalizeAddress(payerAddress);
     }
 
     // 2. Decode from PAYMENT-SIGNATURE or X-PAYMENT header
-    const paymentHeader =
-      headers.get('PAYMENT-SIGNATURE') ??
-      headers.get('payment-signature') ??
-      headers.get('X-PAYMENT') ??
-      headers.get('x-payment');
-
+    const paymentHeader = readPaymentHeader(headers);
     if (!paymentHeader) return null;
-
-    // Decode the base64 payment header to extract the payer address.
-    // The header is a base64-encoded JSON object with the structure:
-    // { payload: { authorization: { from: "0x..." }, signature: "0x..." } }
-    try {
-      const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString()) as {
-        payload?: { authorization?: { from?: string }; from?: string };
-      };
-      const from = decoded?.payload?.authorization?.from ?? decoded?.payload?.from;
-      return typeof from === 'string' ? from.toLowerCase() : null;
-    } catch {
-      return null;
-    }
+    return decodePaymentHeader(paymentHeader)?.payer ?? null;
   } catch {
     return null;
   }
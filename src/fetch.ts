@@ -0,0 +1,57 @@
+/**
+ * Telemetry for any Fetch API runtime — Hono, Cloudflare Workers, Bun, Deno,
+ * or plain Request/Response handlers. Does not need Next.js.
+ *
+ * Usage:
+ *   import { initTelemetry, withFetchTelemetry } from '@agentcash/telemetry/server';
+ *
+ *   initTelemetry({ clickhouse: { url: process.env.TELEM_CLICKHOUSE_URL! } });
+ *
+ *   // Cloudflare Workers: keep the worker alive for the insert with waitUntil
+ *   export default {
+ *     fetch: withFetchTelemetry(handler, {
+ *       defer: (task, env, ctx) => ctx.waitUntil(task()),
+ *     }),
+ *   };
+ */
+
+import type { TelemetryContext } from './types';
+import { getDefaultRuntime } from './init';
+import { deferInline, instrumentRequest } from './instrument';
+import type { TelemetryInstance } from './instance';
+
+export interface FetchTelemetryOptions<TArgs extends unknown[] = []> {
+  /** Instance from createTelemetryInstance() or createTelemetry() to record through. Default: the initTelemetry() config. */
+  telemetry?: TelemetryInstance;
+  /**
+   * Run the insert after the response is sent. Receives the handler's extra
+   * arguments, e.g. `(task, env, ctx) => ctx.waitUntil(task())` on Workers.
+   * Default: inline, without holding up the response.
+   */
+  defer?: (task: () => Promise<void>, ...args: TArgs) => void;
+}
+
+/**
+ * Wrap a standard `(request, ...args) => Response` handler with telemetry.
+ * Records the same mcp_resource_invocations rows as withTelemetry, including
+ * streaming timing and settlement results. Extra arguments (Workers' env and
+ * ctx, a Hono context) are passed through to the handler and `defer`.
+ */
+export function withFetchTelemetry<TArgs extends unknown[] = []>(
+  handler: (request: Request, ctx: TelemetryContext, ...args: TArgs) => Promise<Response>,
+  options?: FetchTelemetryOptions<TArgs>,
+): (request: Request, ...args: TArgs) => Promise<Response> {
+  return async (request: Request, ...args: TArgs): Promise<Response> => {
+    const defer = options?.defer;
+    return instrumentRequest(request, (ctx) => handler(request, ctx, ...args), {
+      runtime: options?.telemetry?.runtime ?? getDefaultRuntime(),
+      defer: defer ? (task) => defer(task, ...args) : deferInline,
+      rewrap: (stream, response) =>
+        new Response(stream, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        }),
+    });
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Identity checks written on every row:
+ *
+ * - identity_confidence compares the claimed X-Wallet-Address with the
+ *   wallet proven by payment, so spoofing or misconfigured clients show up
+ *   on the row itself instead of in dashboard SQL.
+ * - identity_violations lists where the identity headers break the header
+ *   contract in docs/telemetry-spec.md.
+ */
+
+import type { IdentityMismatch, McpResourceInvocation } from './types';
+
+/**
+ * - verified-match: the claimed wallet paid
+ * - verified-mismatch: a different wallet paid than the one claimed
+ * - verified-only: a wallet paid, none was claimed
+ * - claimed-only: a wallet was claimed, nothing proved it
+ * - anonymous: neither
+ */
+export type IdentityConfidence =
+  | 'verified-match'
+  | 'verified-mismatch'
+  | 'verified-only'
+  | 'claimed-only'
+  | 'anonymous';
+
+/**
+ * Derive identity confidence from the claimed and verified wallets.
+ * Addresses are compared case-insensitively.
+ */
+export function identityConfidence(
+  claimedWallet: string | null,
+  verifiedWallet: string | null,
+): IdentityConfidence {
+  if (verifiedWallet) {
+    if (!claimedWallet) return 'verified-only';
+    return claimedWallet.toLowerCase() === verifiedWallet.toLowerCase()
+      ? 'verified-match'
+      : 'verified-mismatch';
+  }
+  return claimedWallet ? 'claimed-only' : 'anonymous';
+}
+
+/**
+ * Invoke an app's onIdentityMismatch callback if the row is a
+ * verified-mismatch. A throwing callback is logged, never propagated.
+ */
+export function reportIdentityMismatch(
+  row: McpResourceInvocation,
+  callback: ((mismatch: IdentityMismatch) => void) | undefined,
+): void {
+  if (!callback || row.identity_confidence !== 'verified-mismatch') return;
+  try {
+    callback({
+      requestId: row.id,
+      route: row.route,
+      claimedWallet: row.x_wallet_address ?? '',
+      verifiedWallet: row.verified_wallet_address ?? '',
+      clientId: row.x_client_id,
+    });
+  } catch (error: unknown) {
+    console.error('[telemetry] onIdentityMismatch callback failed:', error);
+  }
+}
+
+/** Max X-Session-ID length allowed by the spec. */
+export const MAX_SESSION_ID_LENGTH = 128;
+
+/** X-Client-ID for clients that aren't registered yet — allowed by the spec. */
+const UNREGISTERED_CLIENT_ID = 'unknown';
+
+const WALLET_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+/** Values buggy clients send when a variable was never set. */
+const PLACEHOLDERS = new Set(['undefined', 'null', '']);
+
+/** Identity headers as sent — before the wallet address is lowercased. */
+export interface IdentityHeaders {
+  walletAddress: string | null;
+  clientId: string | null;
+  sessionId: string | null;
+}
+
+/**
+ * Check identity headers against the spec's header contract. Returns
+ * violation codes, empty when the headers conform:
+ *
+ * - wallet-address-missing / wallet-address-placeholder / wallet-address-invalid
+ * - wallet-address-not-lowercase
+ * - client-id-missing / client-id-placeholder / client-id-unregistered
+ * - session-id-placeholder / session-id-too-long
+ */
+export function validateIdentityHeaders(
+  headers: IdentityHeaders,
+  registry: Readonly<Record<string, string>>,
+): string[] {
+  const violations: string[] = [];
+  const { walletAddress, clientId, sessionId } = headers;
+
+  if (walletAddress === null) {
+    violations.push('wallet-address-missing');
+  } else if (PLACEHOLDERS.has(walletAddress)) {
+    violations.push('wallet-address-placeholder');
+  } else if (!WALLET_ADDRESS.test(walletAddress)) {
+    violations.push('wallet-address-invalid');
+  } else if (walletAddress !== walletAddress.toLowerCase()) {
+    violations.push('wallet-address-not-lowercase');
+  }
+
+  if (clientId === null) {
+    violations.push('client-id-missing');
+  } else if (PLACEHOLDERS.has(clientId)) {
+    violations.push('client-id-placeholder');
+  } else if (
+    clientId !== UNREGISTERED_CLIENT_ID &&
+    !Object.prototype.hasOwnProperty.call(registry, clientId)
+  ) {
+    violations.push('client-id-unregistered');
+  }
+
+  if (sessionId !== null) {
+    if (PLACEHOLDERS.has(sessionId)) {
+      violations.push('session-id-placeholder');
+    } else if (sessionId.length > MAX_SESSION_ID_LENGTH) {
+      violations.push('session-id-too-long');
+    }
+  }
+
+  return violations;
+}
@@ -1,10 +1,73 @@
 // Core — no optional deps required
-export { initTelemetry } from './init';
+export { initTelemetry, flushTelemetry } from './init';
+export { createTelemetry } from './create-telemetry';
 export { withTelemetry } from './telemetry';
+export { createMcpTelemetry } from './mcp';
 export { extractVerifiedWallet } from './extract-wallet';
+export { decodePaymentHeader } from './payment-header';
+export { classifyClient, DEFAULT_CLIENT_REGISTRY } from './client-registry';
+export { identityConfidence } from './identity';
+export { DEFAULT_REDACTED_HEADERS } from './redact';
+export { DEFAULT_MAX_BODY_BYTES } from './body-capture';
+export { MAX_ATTRIBUTES } from './attributes';
+
+// Schema
+export {
+  ensureSchema,
+  checkSchema,
+  formatSchemaCheck,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  EXPECTED_COLUMNS,
+} from './schema';
+
+// Sinks
+export { createClickhouseSink } from './clickhouse';
+export { createConsoleSink, createMemorySink, createFanOutSink } from './sinks';
+export { createBatchingSink } from './batch';
+export { createSpoolingSink, replaySpool } from './spool';
+export { createOtlpSink } from './otlp';
+
+// Trace context
+export { parseTraceparent } from './trace-context';
 
 // Types
-export type { McpResourceInvocation, TelemetryContext, TelemetryConfig } from './types';
+export type {
+  McpResourceInvocation,
+  X402Payment,
+  ProviderQuotaRecord,
+  RouterEventRecord,
+  ProviderCallRecord,
+  ProviderFetch,
+  ProviderFetchInit,
+  TelemetryContext,
+  TelemetryAttributes,
+  TelemetryConfig,
+  ClickhouseConfig,
+  OtlpConfig,
+  TelemetrySink,
+  TelemetryTable,
+  TelemetryTables,
+  BatchConfig,
+  SpoolConfig,
+  RedactionConfig,
+  SamplingConfig,
+  IdentityMismatch,
+  SamplingRule,
+  SampleMode,
+} from './types';
+export type { Telemetry } from './create-telemetry';
+export type { WithTelemetryOptions } from './telemetry';
+export type { McpTelemetry, McpTelemetryOptions, McpRequest } from './mcp';
+export type { TelemetryPlugin } from './router-plugin';
+export type { Migration, SchemaResult, SchemaCheck, TableDrift, ColumnDrift } from './schema';
+export type { ClientSignals } from './client-registry';
+export type { IdentityConfidence } from './identity';
+export type { DecodedPayment } from './payment-header';
+export type { TraceContext } from './trace-context';
+export type { MemorySink } from './sinks';
+export type { BatchingSink } from './batch';
+export type { SpoolingSink, SpoolReplayResult } from './spool';
 
 // Separate entrypoints (optional peer deps isolated):
 //   import { createTelemetryPlugin } from '@agentcash/telemetry/plugin';
@@ -1,7 +1,37 @@
-import type { TelemetryConfig } from './types';
-import { initClickhouse, pingClickhouse } from './clickhouse';
+import type { IdentityMismatch, TelemetryConfig, TelemetrySink } from './types';
+import { createClickhouseSink } from './clickhouse';
+import { flushSink, verifySink } from './sinks';
+import { createBatchingSink } from './batch';
+import { createSpoolingSink } from './spool';
+import { checkSchemaInBackground, ensureSchemaInBackground } from './schema';
+import { buildClientRegistry, DEFAULT_CLIENT_REGISTRY } from './client-registry';
+import { resolveRedaction, type RedactionPolicy } from './redact';
+import { DEFAULT_MAX_BODY_BYTES } from './body-capture';
+import { resolveSampling, type SamplingPolicy } from './sampling';
 
-let configuredOrigin: string | undefined;
+/**
+ * Resolved telemetry state. initTelemetry() fills the default runtime that the
+ * top-level wrappers use; createTelemetry() builds one per instance.
+ */
+export interface TelemetryRuntime {
+  sink: TelemetrySink | null;
+  origin: string | undefined;
+  clientRegistry: Readonly<Record<string, string>>;
+  redaction: RedactionPolicy | null;
+  maxBodyBytes: number;
+  sampling: SamplingPolicy | null;
+  onIdentityMismatch: ((mismatch: IdentityMismatch) => void) | undefined;
+}
+
+const defaultRuntime: TelemetryRuntime = {
+  sink: null,
+  origin: undefined,
+  clientRegistry: DEFAULT_CLIENT_REGISTRY,
+  redaction: resolveRedaction(),
+  maxBodyBytes: DEFAULT_MAX_BODY_BYTES,
+  sampling: null,
+  onIdentityMismatch: undefined,
+};
 
 /**
  * Initialize the telemetry package. Call once at module level.
@@ -24,18 +54,125 @@ let configuredOrigin: string | undefined;
  *   },
  * });
  * ```
+ *
+ * Pass `sink` instead of (or alongside) `clickhouse` to send rows elsewhere —
+ * e.g. `createConsoleSink()` for local dev or `createMemorySink()` in tests.
  */
 export function initTelemetry(config: TelemetryConfig): void {
-  initClickhouse(config.clickhouse);
-  if (config.origin) {
-    configuredOrigin = config.origin;
+  const sink = resolveSink(config);
+  // Updated in place — an origin set by an earlier call is kept
+  Object.assign(defaultRuntime, resolveRuntime(config, sink), {
+    origin: config.origin ?? defaultRuntime.origin,
+  });
+  if (config.verify) {
+    startVerification(config, sink);
+  }
+  if (config.ensureSchema) {
+    startSchemaMigration(config);
   }
+}
+
+/**
+ * Build a standalone runtime for createTelemetry() and the router plugin.
+ * ClickHouse gets its own client, so runtimes never share or replace the
+ * one initTelemetry() set up.
+ */
+export function createRuntime(config: TelemetryConfig): TelemetryRuntime {
+  const sink = resolveSink(config);
   if (config.verify) {
-    pingClickhouse();
+    startVerification(config, sink);
+  }
+  if (config.ensureSchema) {
+    startSchemaMigration(config);
   }
+  return resolveRuntime(config, sink);
+}
+
+/**
+ * Resolve the per-request settings of a config around an already-built sink.
+ */
+export function resolveRuntime(
+  config: TelemetryConfig,
+  sink: TelemetrySink | null,
+): TelemetryRuntime {
+  return {
+    sink,
+    origin: config.origin,
+    clientRegistry: buildClientRegistry(config.clients),
+    redaction: resolveRedaction(config.redact),
+    maxBodyBytes: config.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES,
+    sampling: resolveSampling(config.sample),
+    onIdentityMismatch: config.onIdentityMismatch,
+  };
 }
 
-/** Get the configured origin, or undefined if not set. */
-export function getOrigin(): string | undefined {
-  return configuredOrigin;
+/**
+ * Ping the sink and, when writing to ClickHouse, compare the live tables to
+ * the expected columns. Fire-and-forget — results are logged.
+ */
+export function startVerification(
+  config: Pick<TelemetryConfig, 'clickhouse' | 'sink'>,
+  sink: TelemetrySink | null,
+): void {
+  if (!sink) return;
+  verifySink(sink, config.sink ? 'Sink' : 'ClickHouse');
+  if (config.clickhouse) {
+    checkSchemaInBackground(config.clickhouse);
+  }
+}
+
+/**
+ * Kick off ensureSchema for a config's ClickHouse target. Fire-and-forget.
+ */
+export function startSchemaMigration(config: Pick<TelemetryConfig, 'clickhouse'>): void {
+  if (!config.clickhouse) {
+    console.error('[telemetry] ensureSchema requires a `clickhouse` config.');
+    return;
+  }
+  ensureSchemaInBackground(config.clickhouse);
+}
+
+/**
+ * Pick the sink for a config: an explicit `sink`, else a ClickHouse sink,
+ * wrapped in a disk spool when `spool` is set and a batching buffer when
+ * `batch` is set (so whole failed batches land in the spool).
+ * Returns null (and logs) when neither is configured.
+ *
+ * A ClickHouse sink gets its own client, owned by the runtime it's built for.
+ */
+export function resolveSink(
+  config: Pick<TelemetryConfig, 'clickhouse' | 'sink' | 'batch' | 'spool'>,
+): TelemetrySink | null {
+  let sink: TelemetrySink;
+  if (config.sink) {
+    sink = config.sink;
+  } else if (config.clickhouse) {
+    sink = createClickhouseSink(config.clickhouse);
+  } else {
+    console.error('[telemetry] No sink configured. Pass `clickhouse` or `sink`.');
+    return null;
+  }
+  if (config.spool) {
+    sink = createSpoolingSink(sink, config.spool);
+  }
+  if (config.batch) {
+    sink = createBatchingSink(sink, config.batch === true ? {} : config.batch);
+  }
+  return sink;
+}
+
+/** Get the runtime initTelemetry() configures. Updated in place on every call. */
+export function getDefaultRuntime(): TelemetryRuntime {
+  return defaultRuntime;
+}
+
+/**
+ * Drain buffered and in-flight telemetry writes. Never rejects.
+ *
+ * withTelemetry and the route builder already call this in after(). Call it
+ * yourself before a serverless function freezes or a process exits if you
+ * record rows outside those wrappers.
+ */
+export function flushTelemetry(): Promise<void> {
+  return flushSink(defaultRuntime.sink);
 }
@@ -0,0 +1,38 @@
+/**
+ * Framework-neutral telemetry instances. create-telemetry.ts adds the Next.js
+ * withTelemetry on top; the fetch and node entrypoints use these as is, so
+ * they load without Next.js installed.
+ */
+
+import { createRuntime, type TelemetryRuntime } from './init';
+import { flushSink } from './sinks';
+import { createRuntimePlugin, type TelemetryPlugin } from './router-plugin';
+import type { TelemetryConfig } from './types';
+
+export interface TelemetryInstance {
+  /**
+   * A router plugin that writes through this instance's sink.
+   * Each call returns a new plugin; the sink is shared.
+   */
+  createPlugin(options?: { console?: boolean }): TelemetryPlugin;
+  /** Drain this instance's buffered and in-flight writes. Never rejects. */
+  flush(): Promise<void>;
+  /**
+   * Resolved state — read by the wrappers and the route builder when this
+   * instance is passed as their `telemetry` option. Not for app code.
+   */
+  readonly runtime: TelemetryRuntime;
+}
+
+/**
+ * Create an instance with its own sink, ClickHouse client and settings.
+ * Takes the same config as initTelemetry() and leaves the default untouched.
+ */
+export function createTelemetryInstance(config: TelemetryConfig): TelemetryInstance {
+  const runtime = createRuntime(config);
+  return {
+    runtime,
+    createPlugin: (options) => createRuntimePlugin(runtime, options?.console ?? false),
+    flush: () => flushSink(runtime.sink),
+  };
+}
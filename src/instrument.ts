@@ -0,0 +1,205 @@
+/**
+ * Request instrumentation shared by withTelemetry (Next.js) and
+ * withFetchTelemetry (any Fetch API runtime). Works on standard
+ * Request/Response; the framework supplies how to defer the insert and how
+ * to re-wrap a streamed body in its own response type.
+ */
+
+import type { TelemetryContext, RequestMeta } from './types';
+import {
+  extractRequestMeta,
+  buildTelemetryContext,
+  extractSettlement,
+  recordInvocation,
+} from './telemetry-core';
+import type { TelemetryRuntime } from './init';
+import { flushSink } from './sinks';
+import { captureBody, peekBody, type CapturedBody, type PeekedBody } from './body-capture';
+import { isStreamingResponse, isUnsizedResponse, observeStream } from './streaming';
+
+/**
+ * Schedule work to run after the response is sent — Next.js after(),
+ * Cloudflare/Vercel waitUntil(), or inline.
+ */
+export type Defer = (task: () => Promise<void>) => void;
+
+/** Run deferred work without awaiting it. Fine for long-lived servers. */
+export const deferInline: Defer = (task) => {
+  void task();
+};
+
+export interface InstrumentOptions<R extends Response> {
+  runtime: TelemetryRuntime;
+  defer: Defer;
+  /** Build the framework's response around an observed stream. */
+  rewrap: (stream: ReadableStream<Uint8Array>, response: R) => R;
+}
+
+/**
+ * Run a handler and record the invocation.
+ *
+ * A thrown Response is returned as the response. Any other error is recorded
+ * as a 500 and re-thrown. 402 payment challenges are not recorded.
+ *
+ * Streaming responses (text/event-stream, NDJSON, chunked) and any other
+ * body without a Content-Length are not read up front: chunks pass straight
+ * through to the client and the row is written when the body has been sent
+ * or the client aborts. Sized bodies are read up to maxBodyBytes; longer
+ * ones are observed the same way.
+ *
+ * The entire telemetry code path is wrapped in try/catch.
+ * Telemetry failures never affect the response.
+ */
+export async function instrumentRequest<R extends Response>(
+  request: Request,
+  handler: (ctx: TelemetryContext) => Promise<R>,
+  options: InstrumentOptions<R>,
+): Promise<R> {
+  const { runtime } = options;
+  const meta = extractRequestMeta(request, runtime);
+  const ctx = buildTelemetryContext(meta, runtime);
+
+  // Capture request body for logging (only for methods with bodies), up to maxBodyBytes
+  let requestBody: CapturedBody | null = null;
+  if (meta.method === 'POST' || meta.method === 'PUT' || meta.method === 'PATCH') {
+    try {
+      requestBody = await captureBody(request, meta.requestContentType, runtime.maxBodyBytes);
+    } catch {
+      // Body read failed — that's fine
+    }
+  }
+
+  // Execute the actual handler
+  let response: R;
+  let handlerError: unknown = null;
+
+  try {
+    response = await handler(ctx);
+  } catch (error: unknown) {
+    handlerError = error;
+    if (error instanceof Response) {
+      response = error as R;
+    } else {
+      const message = error instanceof Error ? error.message : 'Internal server error';
+      // Only recorded — the original error is re-thrown below
+      response = Response.json({ success: false, error: message }, { status: 500 }) as R;
+    }
+  }
+
+  // 402 is the x402/MPP payment challenge — not a real invocation, skip logging.
+  // A body without a Content-Length may still be in the making, so it is
+  // observed as it is sent — except the 500 built here, which is never sent.
+  const streaming = isStreamingResponse(response);
+  const thrown = handlerError !== null && !(handlerError instanceof Response);
+  if (response.status !== 402 && (streaming || (!thrown && isUnsizedResponse(response)))) {
+    response = observeResponse(meta, requestBody, response, options, streaming);
+  } else if (response.status !== 402) {
+    // Capture all response data before returning — the clone must be taken
+    // before the framework consumes the body to send it to the client.
+    const status = response.status;
+    const responseHeaders = JSON.stringify(Object.fromEntries(response.headers.entries()));
+    const contentType = response.headers.get('content-type') ?? null;
+    const settlement = extractSettlement(response);
+    let peeked: PeekedBody = { body: null, complete: true };
+    try {
+      peeked = await peekBody(response, contentType, runtime.maxBodyBytes);
+    } catch {
+      // Response body read failed — that's fine
+    }
+
+    if (!peeked.complete) {
+      // Past maxBodyBytes: observe the rest on its way to the client for the
+      // full size and digest, rather than reading it all up front
+      response = observeResponse(meta, requestBody, response, options, false);
+    } else {
+      // Defer the insert until after the response is sent, and flush any
+      // batched rows before a serverless function freezes.
+      deferSafely(options.defer, async () => {
+        try {
+          recordInvocation(
+            meta,
+            requestBody,
+            { status, body: peeked.body, headers: responseHeaders, contentType, settlement },
+            runtime,
+          );
+        } catch {
+          // Telemetry never affects the response
+        }
+        await flushSink(runtime.sink);
+      });
+    }
+  }
+
+  // Re-throw the original error if it wasn't a Response
+  if (handlerError && !(handlerError instanceof Response)) {
+    throw handlerError;
+  }
+
+  return response;
+}
+
+/**
+ * Pass a body through to the client and record the row once it has been
+ * sent or the client aborts. Used for streaming bodies (SSE, NDJSON,
+ * chunked), which also get time-to-first-byte and stream duration, and for
+ * unsized bodies or ones too large to read up front. Falls back to the original response
+ * if it can't be re-wrapped.
+ */
+function observeResponse<R extends Response>(
+  meta: RequestMeta,
+  requestBody: CapturedBody | null,
+  response: R,
+  options: InstrumentOptions<R>,
+  streaming: boolean,
+): R {
+  const { runtime } = options;
+  try {
+    const contentType = response.headers.get('content-type') ?? null;
+    const { stream, done } = observeStream(response.body!, contentType, runtime.maxBodyBytes);
+    const observed = options.rewrap(stream, response);
+    const responseHeaders = JSON.stringify(Object.fromEntries(response.headers.entries()));
+    const settlement = extractSettlement(response);
+
+    // The deferral keeps the function alive until the stream has ended and the row is flushed
+    deferSafely(options.defer, async () => {
+      const result = await done;
+      try {
+        recordInvocation(
+          meta,
+          requestBody,
+          {
+            status: response.status,
+            body: result.body,
+            headers: responseHeaders,
+            contentType,
+            settlement,
+            stream: streaming
+              ? {
+                  timeToFirstByte:
+                    result.firstByteAt === null ? null : result.firstByteAt - meta.startTime,
+                  duration: result.endedAt - (result.firstByteAt ?? result.endedAt),
+                  status: result.status,
+                }
+              : undefined,
+          },
+          runtime,
+        );
+      } catch {
+        // Telemetry never affects the response
+      }
+      await flushSink(runtime.sink);
+    });
+    return observed;
+  } catch {
+    return response;
+  }
+}
+
+/** Defer a task, running it inline if the hook throws (e.g. after() outside a request). */
+function deferSafely(defer: Defer, task: () => Promise<void>): void {
+  try {
+    defer(task);
+  } catch {
+    void task();
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Telemetry for MCP servers. Records each `tools/call` and `resources/read`
+ * as an mcp_resource_invocations row — tool name or resource URI as the
+ * route, arguments as the request body — attributed to the host application
+ * that sent `initialize` (stored in mcp_host).
+ *
+ * Usage with @modelcontextprotocol/sdk:
+ *   import { createMcpTelemetry } from '@agentcash/telemetry/server';
+ *
+ *   const mcpTelemetry = createMcpTelemetry({ origin: 'mcp://search' });
+ *   server.oninitialized = () => mcpTelemetry.setHost(server.getClientVersion());
+ *   server.setRequestHandler(CallToolRequestSchema, mcpTelemetry.wrap(async (request, extra) => {
+ *     mcpTelemetry.context(extra)?.setVerifiedWallet(wallet);
+ *     return { content: [...] };
+ *   }));
+ *
+ * Or around a raw JSON-RPC dispatcher, which sees `initialize` itself:
+ *   const dispatch = mcpTelemetry.wrap(handleJsonRpcMessage);
+ */
+
+import type { TelemetryContext } from './types';
+import { extractRequestMeta, buildTelemetryContext, recordInvocation } from './telemetry-core';
+import { getDefaultRuntime } from './init';
+import type { TelemetryInstance } from './instance';
+
+export interface McpTelemetryOptions {
+  /** Instance from createTelemetryInstance() or createTelemetry() to record through. Default: the initTelemetry() config. */
+  telemetry?: TelemetryInstance;
+  /** Stored as the row's origin. Default: the configured origin, else 'mcp'. */
+  origin?: string;
+}
+
+/** A JSON-RPC request as the SDK's setRequestHandler() or a raw dispatcher receives it. */
+export interface McpRequest {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+type McpHandler<TRequest extends McpRequest, TExtra, TResult> = (
+  request: TRequest,
+  extra: TExtra,
+) => Promise<TResult>;
+
+export interface McpTelemetry {
+  /**
+   * Wrap a request handler. `tools/call` and `resources/read` are recorded;
+   * `initialize` sets the host; other methods pass through untouched.
+   * Results may be bare MCP results or JSON-RPC response envelopes.
+   */
+  wrap<TRequest extends McpRequest, TExtra, TResult>(
+    handler: McpHandler<TRequest, TExtra, TResult>,
+  ): McpHandler<TRequest, TExtra, TResult>;
+  /**
+   * Set the host recorded in mcp_host — the `clientInfo` from `initialize`
+   * (or its name). Call this when the SDK handles the handshake for you.
+   */
+  setHost(clientInfo: { name?: string } | string | undefined): void;
+  /** The current host, e.g. to forward as X-MCP-Host on outbound requests. */
+  readonly host: string | null;
+  /** The TelemetryContext for a call in flight, looked up by its `extra` argument. */
+  context(extra: unknown): TelemetryContext | undefined;
+}
+
+/**
+ * Create MCP telemetry for one server connection. Each connection (stdio
+ * process, HTTP session) has its own host, so create one per connection
+ * when a server handles several.
+ *
+ * Writes are not flushed per call — call flushTelemetry() on shutdown when batching.
+ */
+export function createMcpTelemetry(options?: McpTelemetryOptions): McpTelemetry {
+  let host: string | null = null;
+  const contexts = new WeakMap<object, TelemetryContext>();
+
+  const setHost: McpTelemetry['setHost'] = (clientInfo) => {
+    const name = typeof clientInfo === 'string' ? clientInfo : clientInfo?.name;
+    if (name) host = name;
+  };
+
+  return {
+    get host() {
+      return host;
+    },
+
+    setHost,
+
+    context(extra) {
+      return typeof extra === 'object' && extra !== null ? contexts.get(extra) : undefined;
+    },
+
+    wrap(handler) {
+      return async (request, extra) => {
+        if (request.method === 'initialize') {
+          try {
+            setHost(request.params?.clientInfo as { name?: string } | undefined);
+          } catch {
+            // Telemetry never affects the handshake
+          }
+          return handler(request, extra);
+        }
+
+        const route = routeOf(request);
+        if (route === null) return handler(request, extra);
+
+        const runtime = options?.telemetry?.runtime ?? getDefaultRuntime();
+        const meta = extractRequestMeta(
+          new Request('http://mcp.invalid/', { headers: headersOf(request, extra) }),
+          runtime,
+        );
+        meta.method = request.method;
+        meta.route = route;
+        meta.origin = options?.origin ?? runtime.origin ?? 'mcp';
+        meta.mcpHost = host ?? meta.mcpHost;
+        meta.requestContentType = 'application/json';
+        if (typeof extra === 'object' && extra !== null) {
+          contexts.set(extra, buildTelemetryContext(meta, runtime));
+        }
+
+        const requestBody =
+          request.method === 'tools/call' ? safeStringify(request.params?.arguments ?? {}) : null;
+        const record = (status: number, body: unknown) =>
+          recordInvocation(
+            meta,
+            requestBody,
+            {
+              status,
+              body: safeStringify(body),
+              headers: null,
+              contentType: 'application/json',
+            },
+            runtime,
+          );
+
+        let result: Awaited<ReturnType<typeof handler>>;
+        try {
+          result = await handler(request, extra);
+        } catch (error) {
+          record(statusOfError(error), errorBody(error));
+          throw error;
+        }
+        record(statusOfResult(result), result);
+        return result;
+      };
+    },
+  };
+}
+
+/** Tool name for `tools/call`, URI for `resources/read`, null for methods that aren't recorded. */
+function routeOf(request: McpRequest): string | null {
+  if (request.method === 'tools/call' && typeof request.params?.name === 'string') {
+    return request.params.name;
+  }
+  if (request.method === 'resources/read' && typeof request.params?.uri === 'string') {
+    return request.params.uri;
+  }
+  return null;
+}
+
+/**
+ * HTTP-style status for a result: a JSON-RPC error maps by code, a tool
+ * result with `isError: true` is a 500, anything else a 200.
+ */
+function statusOfResult(result: unknown): number {
+  if (typeof result !== 'object' || result === null) return 200;
+  if ('jsonrpc' in result) {
+    const envelope = result as { error?: unknown; result?: unknown };
+    if (envelope.error) return statusOfError(envelope.error);
+    return statusOfResult(envelope.result);
+  }
+  return (result as { isError?: unknown }).isError === true ? 500 : 200;
+}
+
+/** Map a JSON-RPC error code (McpError carries one) to an HTTP-style status. */
+function statusOfError(error: unknown): number {
+  const code = (error as { code?: unknown } | null)?.code;
+  switch (code) {
+    case -32700: // Parse error
+    case -32600: // Invalid request
+    case -32602: // Invalid params
+      return 400;
+    case -32601: // Method not found
+    case -32002: // Resource not found
+      return 404;
+    default:
+      return 500;
+  }
+}
+
+function errorBody(error: unknown): unknown {
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code;
+    return { code: typeof code === 'number' ? code : undefined, message: error.message };
+  }
+  return { message: String(error) };
+}
+
+/**
+ * The incoming HTTP headers, when the transport exposes them — the SDK's
+ * HTTP transports pass `extra.requestInfo.headers`. Stdio has none, so
+ * trace context can also come in `params._meta.traceparent` / `tracestate`.
+ */
+function headersOf(request: McpRequest, extra: unknown): Headers {
+  const headers = new Headers();
+  try {
+    const source = (extra as { requestInfo?: { headers?: Record<string, unknown> } } | null)
+      ?.requestInfo?.headers;
+    for (const [name, value] of Object.entries(source ?? {})) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        headers.append(name, String(item));
+      }
+    }
+    const carrier = request.params?._meta as Record<string, unknown> | undefined;
+    if (!headers.has('traceparent') && typeof carrier?.traceparent === 'string') {
+      headers.set('traceparent', carrier.traceparent);
+      if (typeof carrier.tracestate === 'string') headers.set('tracestate', carrier.tracestate);
+    }
+  } catch {
+    // Unreadable headers — record without identity
+  }
+  return headers;
+}
+
+function safeStringify(value: unknown): string | null {
+  try {
+    return JSON.stringify(value) ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Telemetry middleware for Express, Connect and plain node:http servers.
+ * Records the same mcp_resource_invocations rows as withTelemetry.
+ *
+ * Usage:
+ *   import { initTelemetry, createTelemetryMiddleware, getTelemetryContext } from '@agentcash/telemetry/server';
+ *
+ *   initTelemetry({ clickhouse: { url: process.env.TELEM_CLICKHOUSE_URL! } });
+ *   app.use(express.json());
+ *   app.use(createTelemetryMiddleware());
+ *
+ *   app.post('/api/search', (req, res) => {
+ *     getTelemetryContext(req)?.setVerifiedWallet(wallet);
+ *     res.json(results);
+ *   });
+ */
+
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  OutgoingHttpHeaders,
+  ServerResponse,
+} from 'http';
+import type { TLSSocket } from 'tls';
+import type { RequestMeta, TelemetryContext } from './types';
+import { extractRequestMeta, buildTelemetryContext, recordInvocation } from './telemetry-core';
+import { getDefaultRuntime, type TelemetryRuntime } from './init';
+import {
+  createBodyCollector,
+  isTextContentType,
+  type BodyCollector,
+  type CapturedBody,
+} from './body-capture';
+import { isStreamingContentType, type StreamStatus } from './streaming';
+import { decodePaymentResponseHeader, readPaymentResponseHeader } from './payment-header';
+import type { TelemetryInstance } from './instance';
+
+export interface TelemetryMiddlewareOptions {
+  /** Instance from createTelemetryInstance() or createTelemetry() to record through. Default: the initTelemetry() config. */
+  telemetry?: TelemetryInstance;
+}
+
+type NodeMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (error?: unknown) => void,
+) => void;
+
+const contexts = new WeakMap<IncomingMessage, TelemetryContext>();
+
+/**
+ * Create middleware that records each request once its response finishes
+ * (or the client disconnects). Response bodies are captured as they are
+ * written, up to maxBodyBytes; request bodies are taken from `req.body`
+ * when a body parser ran before the row is written, since the raw request
+ * stream belongs to the app.
+ *
+ * Writes are not flushed per request — call flushTelemetry() on shutdown
+ * when batching.
+ */
+export function createTelemetryMiddleware(options?: TelemetryMiddlewareOptions): NodeMiddleware {
+  return (req, res, next) => {
+    try {
+      const runtime = options?.telemetry?.runtime ?? getDefaultRuntime();
+      const meta = extractRequestMeta(toFetchRequest(req), runtime);
+      // The Fetch Request is always a GET; CONNECT and TRACE can't be constructed
+      meta.method = req.method ?? '';
+      contexts.set(req, buildTelemetryContext(meta, runtime));
+      observeResponse(req, res, meta, runtime);
+    } catch {
+      // Telemetry never affects the request
+    }
+    next?.();
+  };
+}
+
+/**
+ * The TelemetryContext for a request the middleware has seen, for
+ * setVerifiedWallet() and the identity headers.
+ */
+export function getTelemetryContext(req: IncomingMessage): TelemetryContext | undefined {
+  return contexts.get(req);
+}
+
+/**
+ * Tap res.writeHead()/write()/end() to capture headers, the body and first-byte time, and
+ * record the row on 'finish' or on a 'close' that comes first (aborted).
+ */
+function observeResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  meta: RequestMeta,
+  runtime: TelemetryRuntime,
+): void {
+  let collector: BodyCollector | null = null;
+  let firstByteAt: number | null = null;
+  let recorded = false;
+  // writeHead(status, headers) can bypass setHeader, so getHeaders() misses them
+  const headHeaders: OutgoingHttpHeaders = {};
+  const responseHeaders = () => toHeaders({ ...res.getHeaders(), ...headHeaders });
+
+  const capture = (chunk: unknown, encoding: unknown) => {
+    try {
+      const bytes =
+        typeof chunk === 'string'
+          ? Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8')
+          : chunk instanceof Uint8Array
+            ? chunk
+            : null;
+      if (!bytes || bytes.byteLength === 0) return;
+      firstByteAt ??= Date.now();
+      collector ??= createBodyCollector(
+        responseHeaders().get('content-type'),
+        runtime.maxBodyBytes,
+      );
+      collector.add(bytes);
+    } catch {
+      // Capture failed — the client still gets every chunk
+    }
+  };
+
+  const writeHead = res.writeHead;
+  const write = res.write;
+  const end = res.end;
+  res.writeHead = function (this: ServerResponse, statusCode: number, ...rest: unknown[]) {
+    const headers = rest.find((arg) => typeof arg === 'object' && arg !== null);
+    if (headers && !Array.isArray(headers)) {
+      for (const [name, value] of Object.entries(headers)) {
+        headHeaders[name.toLowerCase()] = value as OutgoingHttpHeaders[string];
+      }
+    }
+    return (writeHead as (...args: unknown[]) => ServerResponse).call(this, statusCode, ...rest);
+  } as typeof res.writeHead;
+  res.write = function (this: ServerResponse, chunk: unknown, ...rest: unknown[]) {
+    capture(chunk, rest[0]);
+    return (write as (...args: unknown[]) => boolean).call(this, chunk, ...rest);
+  } as typeof res.write;
+  res.end = function (this: ServerResponse, chunk?: unknown, ...rest: unknown[]) {
+    if (typeof chunk !== 'function') capture(chunk, rest[0]);
+    return (end as (...args: unknown[]) => ServerResponse).call(this, chunk, ...rest);
+  } as typeof res.end;
+
+  const record = (status: StreamStatus) => {
+    if (recorded) return;
+    recorded = true;
+    try {
+      // 402 is the x402/MPP payment challenge — not a real invocation, skip logging
+      if (res.statusCode === 402) return;
+      const headers = responseHeaders();
+      const contentType = headers.get('content-type');
+      const settlementHeader = readPaymentResponseHeader(headers);
+      const endedAt = Date.now();
+      recordInvocation(
+        meta,
+        requestBodyOf(req, runtime.maxBodyBytes),
+        {
+          status: res.statusCode,
+          body: collector?.finish() ?? null,
+          headers: JSON.stringify(Object.fromEntries(headers.entries())),
+          contentType,
+          settlement: settlementHeader ? decodePaymentResponseHeader(settlementHeader) : null,
+          stream: isStreamingContentType(contentType)
+            ? {
+                timeToFirstByte: firstByteAt === null ? null : firstByteAt - meta.startTime,
+                duration: endedAt - (firstByteAt ?? endedAt),
+                status,
+              }
+            : undefined,
+        },
+        runtime,
+      );
+    } catch {
+      // Telemetry never affects the response
+    }
+  };
+
+  res.once('finish', () => record('complete'));
+  res.once('close', () => record(res.writableFinished ? 'complete' : 'aborted'));
+}
+
+/**
+ * Build a body-less Fetch Request carrying the URL and headers, so the
+ * shared extractRequestMeta can read it. Express's originalUrl survives
+ * router mounting; req.url does not.
+ */
+function toFetchRequest(req: IncomingMessage): Request {
+  const path = (req as { originalUrl?: string }).originalUrl ?? req.url ?? '/';
+  const protocol = (req.socket as TLSSocket | undefined)?.encrypted ? 'https' : 'http';
+  const host = headerValue(req.headers.host) ?? 'localhost';
+  return new Request(`${protocol}://${host}${path}`, { headers: toHeaders(req.headers) });
+}
+
+/**
+ * The body a parser (express.json(), express.text(), ...) left on `req.body`.
+ * Text is passed whole — recordInvocation redacts it before cutting it to
+ * maxBodyBytes. Only binary buffers are reduced to their size and digest here.
+ */
+function requestBodyOf(req: IncomingMessage, maxBytes: number): CapturedBody | string | null {
+  const body = (req as { body?: unknown }).body;
+  if (body === undefined || body === null) return null;
+  if (typeof body === 'string') return body;
+  if (body instanceof Uint8Array) {
+    const contentType = headerValue(req.headers['content-type']);
+    if (isTextContentType(contentType)) {
+      return body.byteLength === 0 ? null : new TextDecoder().decode(body);
+    }
+    const collector = createBodyCollector(contentType, maxBytes);
+    collector.add(body);
+    return collector.finish();
+  }
+  // Parsers leave {} when there was no body
+  if (typeof body === 'object' && Object.keys(body).length === 0) return null;
+  return JSON.stringify(body);
+}
+
+function toHeaders(source: IncomingHttpHeaders | OutgoingHttpHeaders): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, String(item));
+    }
+  }
+  return headers;
+}
+
+function headerValue(value: string | string[] | number | undefined): string | null {
+  if (value === undefined) return null;
+  return Array.isArray(value) ? (value[0] ?? null) : String(value);
+}
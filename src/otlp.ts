@@ -0,0 +1,192 @@
+/**
+ * OTLP/HTTP exporter sink. Sends each invocation as a server span and each
+ * ctx.fetch provider call as a client span to an OpenTelemetry collector,
+ * in the OTLP JSON encoding. Payment, quota and router event rows have no
+ * span and are ignored.
+ *
+ * Usage — alongside ClickHouse, batched so each export carries many spans:
+ *   initTelemetry({
+ *     sink: createFanOutSink([
+ *       createClickhouseSink({ url: process.env.TELEM_CLICKHOUSE_URL! }),
+ *       createOtlpSink({ url: 'http://localhost:4318', serviceName: 'enrichx402' }),
+ *     ]),
+ *     batch: true,
+ *   });
+ */
+
+import type { McpResourceInvocation, OtlpConfig, ProviderCallRecord, TelemetrySink } from './types';
+
+const SPAN_KIND_SERVER = 2;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_ERROR = 2;
+
+type AttributeValue = string | number | boolean | string[] | null | undefined;
+
+interface OtlpAttribute {
+  key: string;
+  value: Record<string, unknown>;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * Create a sink that exports spans to an OTLP/HTTP collector. Each write is
+ * one POST; a non-2xx response rejects, which the write path logs.
+ */
+export function createOtlpSink(config: OtlpConfig): TelemetrySink {
+  const endpoint = config.url.replace(/\/+$/, '');
+  const url = endpoint.endsWith('/v1/traces') ? endpoint : `${endpoint}/v1/traces`;
+
+  return {
+    async write(table, rows) {
+      const spans: Array<{ service: string; span: OtlpSpan }> = [];
+      if (table === 'mcp_resource_invocations') {
+        for (const row of rows as McpResourceInvocation[]) {
+          // Rows spooled before the trace columns existed have no ids
+          if (!row.trace_id || !row.span_id) continue;
+          spans.push({ service: config.serviceName ?? row.origin, span: invocationSpan(row) });
+        }
+      } else if (table === 'provider_calls') {
+        for (const row of rows as ProviderCallRecord[]) {
+          if (!row.trace_id || !row.span_id) continue;
+          spans.push({ service: config.serviceName ?? row.origin, span: providerCallSpan(row) });
+        }
+      }
+      if (spans.length === 0) return;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...config.headers, 'content-type': 'application/json' },
+        body: JSON.stringify({ resourceSpans: groupByService(spans) }),
+        signal: AbortSignal.timeout(config.timeoutMs ?? 5_000),
+      });
+      if (!response.ok) {
+        throw new Error(`OTLP HTTP ${response.status}: ${(await response.text()).trim()}`);
+      }
+      await response.body?.cancel();
+    },
+  };
+}
+
+/** An invocation as a server span named `{method} {route}`, with identity and payment attributes. */
+function invocationSpan(row: McpResourceInvocation): OtlpSpan {
+  const end = new Date(row.created_at).getTime();
+  return {
+    traceId: row.trace_id,
+    spanId: row.span_id,
+    ...(row.parent_span_id ? { parentSpanId: row.parent_span_id } : {}),
+    name: `${row.method} ${row.route}`,
+    kind: SPAN_KIND_SERVER,
+    startTimeUnixNano: unixNano(end - row.duration),
+    endTimeUnixNano: unixNano(end),
+    attributes: attributes({
+      // Handler-set attributes first, so they can't shadow the built-in ones
+      ...row.attributes,
+      'http.request.method': row.method,
+      'http.route': row.route,
+      'http.response.status_code': row.status_code,
+      'agentcash.invocation_id': row.id,
+      'agentcash.origin': row.origin,
+      'agentcash.wallet_address': row.x_wallet_address,
+      'agentcash.client_id': row.x_client_id,
+      'agentcash.client_type': row.client_type,
+      'agentcash.session_id': row.session_id,
+      'agentcash.mcp_host': row.mcp_host,
+      'agentcash.verified_wallet_address': row.verified_wallet_address,
+      'agentcash.identity_confidence': row.identity_confidence,
+      'agentcash.identity_violations': row.identity_violations.length
+        ? row.identity_violations
+        : null,
+      'agentcash.payment.scheme': row.payment_scheme,
+      'agentcash.payment.network': row.payment_network,
+      'agentcash.payment.asset': row.payment_asset,
+      'agentcash.payment.amount': row.payment_amount,
+      'agentcash.settlement.success': row.settlement_success,
+      'agentcash.settlement.transaction': row.settlement_transaction,
+      'agentcash.settlement.network': row.settlement_network,
+      'agentcash.settlement.error': row.settlement_error,
+      'agentcash.stream_status': row.stream_status,
+      'agentcash.sample_rate': row.sample_rate,
+    }),
+    status:
+      row.status_code >= 500
+        ? { code: STATUS_CODE_ERROR, message: row.status_text }
+        : { code: STATUS_CODE_UNSET },
+  };
+}
+
+/** A provider call as a client span of its invocation, named `{method} {provider}`. */
+function providerCallSpan(row: ProviderCallRecord): OtlpSpan {
+  const start = new Date(row.created_at).getTime();
+  const failed = row.status === null || row.status >= 400;
+  return {
+    traceId: row.trace_id,
+    spanId: row.span_id,
+    ...(row.parent_span_id ? { parentSpanId: row.parent_span_id } : {}),
+    name: `${row.method} ${row.provider}`,
+    kind: SPAN_KIND_CLIENT,
+    startTimeUnixNano: unixNano(start),
+    endTimeUnixNano: unixNano(start + row.duration),
+    attributes: attributes({
+      'http.request.method': row.method,
+      'server.address': row.host,
+      'http.response.status_code': row.status,
+      'http.request.body.size': row.request_bytes,
+      'http.response.body.size': row.response_bytes,
+      'agentcash.invocation_id': row.request_id,
+      'agentcash.provider': row.provider,
+      'agentcash.cost_usd': row.cost,
+      'agentcash.error': row.error,
+    }),
+    status: failed
+      ? { code: STATUS_CODE_ERROR, message: row.error ?? `HTTP ${row.status}` }
+      : { code: STATUS_CODE_UNSET },
+  };
+}
+
+function groupByService(spans: Array<{ service: string; span: OtlpSpan }>) {
+  const byService = new Map<string, OtlpSpan[]>();
+  for (const { service, span } of spans) {
+    const serviceSpans = byService.get(service) ?? [];
+    serviceSpans.push(span);
+    byService.set(service, serviceSpans);
+  }
+  return [...byService].map(([service, serviceSpans]) => ({
+    resource: { attributes: attributes({ 'service.name': service }) },
+    scopeSpans: [{ scope: { name: '@agentcash/telemetry' }, spans: serviceSpans }],
+  }));
+}
+
+/** OTLP key/value list; null and undefined values are left out. */
+function attributes(values: Record<string, AttributeValue>): OtlpAttribute[] {
+  return Object.entries(values).flatMap(([key, value]) =>
+    value === null || value === undefined ? [] : [{ key, value: anyValue(value) }],
+  );
+}
+
+function anyValue(value: Exclude<AttributeValue, null | undefined>): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((item) => ({ stringValue: item })) } };
+  }
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    // int64 is a string in the JSON encoding
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function unixNano(ms: number): string {
+  return `${BigInt(Math.round(ms)) * 1_000_000n}`;
+}
@@ -0,0 +1,256 @@
+/**
+ * Structured decoding of x402 payment headers (PAYMENT-SIGNATURE / X-PAYMENT)
+ * and settlement results (PAYMENT-RESPONSE / X-PAYMENT-RESPONSE).
+ *
+ * Understands:
+ * - x402 v1 (`scheme`/`network` at the top level) and v2 (`accepted` requirements)
+ * - EVM exact: EIP-3009 `payload.authorization` and Permit2 `payload.permit2Authorization`
+ * - SVM exact: a serialized Solana transaction in `payload.transaction`, read
+ *   from its SPL Token TransferChecked instruction
+ *
+ * Decoding never verifies anything — withX402 (or the app) has already done that
+ * by the time a handler runs. It never throws; unknown shapes decode to nulls.
+ */
+
+export interface DecodedPayment {
+  /** x402Version from the payload (1 or 2), null if absent. */
+  x402Version: number | null;
+  /** e.g. 'exact' */
+  scheme: string | null;
+  /** As sent — 'base-sepolia' in v1, CAIP-2 ('eip155:8453', 'solana:...') in v2. */
+  network: string | null;
+  /** Token contract / mint address. */
+  asset: string | null;
+  /** Amount in the asset's atomic units, as a decimal string. */
+  amount: string | null;
+  /** Paying wallet. EVM addresses are lowercased; Solana addresses are case-sensitive and kept as is. */
+  payer: string | null;
+  payTo: string | null;
+  /** Unix seconds the authorization is valid from / until, where the scheme has them. */
+  validAfter: number | null;
+  validBefore: number | null;
+}
+
+/** Settlement result withX402 returns in the PAYMENT-RESPONSE header. */
+export interface DecodedSettlement {
+  success: boolean;
+  /** Transaction hash / signature, when settled. */
+  transaction: string | null;
+  network: string | null;
+  /** EVM addresses are lowercased, as in DecodedPayment. */
+  payer: string | null;
+  errorReason: string | null;
+}
+
+/**
+ * Return the raw payment header from a request, preferring the v2 name.
+ */
+export function readPaymentHeader(headers: Headers): string | null {
+  return headers.get('PAYMENT-SIGNATURE') ?? headers.get('X-PAYMENT');
+}
+
+/**
+ * Decode a base64 x402 payment header. Returns null when it isn't base64 JSON.
+ */
+export function decodePaymentHeader(header: string): DecodedPayment | null {
+  let decoded: Record<string, unknown>;
+  try {
+    decoded = JSON.parse(decodeBase64Text(header)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (!isRecord(decoded)) return null;
+
+  const accepted = isRecord(decoded.accepted) ? decoded.accepted : {};
+  const payload = isRecord(decoded.payload) ? decoded.payload : {};
+  const result: DecodedPayment = {
+    x402Version: typeof decoded.x402Version === 'number' ? decoded.x402Version : null,
+    scheme: str(accepted.scheme) ?? str(decoded.scheme),
+    network: str(accepted.network) ?? str(decoded.network),
+    asset: str(accepted.asset),
+    amount: str(accepted.amount) ?? str(accepted.maxAmountRequired),
+    payer: null,
+    payTo: str(accepted.payTo),
+    validAfter: null,
+    validBefore: null,
+  };
+
+  try {
+    if (isRecord(payload.permit2Authorization)) {
+      applyPermit2(result, payload.permit2Authorization);
+    } else if (isRecord(payload.authorization)) {
+      applyEip3009(result, payload.authorization);
+    } else if (typeof payload.transaction === 'string') {
+      applySvmTransaction(result, payload.transaction);
+    } else {
+      result.payer = str(payload.from);
+    }
+  } catch {
+    // Partially decoded — keep what we have
+  }
+
+  result.payer = normalizeAddress(result.payer);
+  result.payTo = normalizeAddress(result.payTo);
+  result.asset = normalizeAddress(result.asset);
+  return result;
+}
+
+/**
+ * Return the raw settlement header from a response, preferring the v2 name.
+ */
+export function readPaymentResponseHeader(headers: Headers): string | null {
+  return headers.get('PAYMENT-RESPONSE') ?? headers.get('X-PAYMENT-RESPONSE');
+}
+
+/**
+ * Decode a base64 PAYMENT-RESPONSE header. Returns null when it isn't base64 JSON.
+ */
+export function decodePaymentResponseHeader(header: string): DecodedSettlement | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(decodeBase64Text(header));
+  } catch {
+    return null;
+  }
+  if (!isRecord(decoded)) return null;
+  return {
+    success: decoded.success === true,
+    transaction: str(decoded.transaction) || null,
+    network: str(decoded.network),
+    payer: normalizeAddress(str(decoded.payer)),
+    errorReason: str(decoded.errorReason),
+  };
+}
+
+/** EIP-3009 transferWithAuthorization (USDC on EVM). */
+function applyEip3009(result: DecodedPayment, auth: Record<string, unknown>): void {
+  result.payer = str(auth.from);
+  result.payTo ??= str(auth.to);
+  result.amount ??= str(auth.value);
+  result.validAfter = seconds(auth.validAfter);
+  result.validBefore = seconds(auth.validBefore);
+}
+
+/** Permit2 permitWitnessTransferFrom — the token and amount are in `permitted`. */
+function applyPermit2(result: DecodedPayment, auth: Record<string, unknown>): void {
+  const permitted = isRecord(auth.permitted) ? auth.permitted : {};
+  const witness = isRecord(auth.witness) ? auth.witness : {};
+  result.payer = str(auth.from);
+  result.asset ??= str(permitted.token);
+  result.amount ??= str(permitted.amount);
+  result.payTo ??= str(witness.to);
+  result.validAfter = seconds(witness.validAfter);
+  result.validBefore = seconds(auth.deadline);
+}
+
+const TOKEN_PROGRAMS = new Set([
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+]);
+const TRANSFER_CHECKED = 12;
+
+/**
+ * Read the SPL Token TransferChecked instruction from a base64 serialized
+ * (legacy or v0) Solana transaction: accounts are [source, mint, destination,
+ * owner], data is [12, amount u64 LE, decimals].
+ */
+function applySvmTransaction(result: DecodedPayment, transaction: string): void {
+  const bytes = decodeBase64(transaction);
+  let offset = 0;
+  // Compact-u16 length prefix: at most 3 bytes
+  const shortVec = () => {
+    let value = 0;
+    for (let shift = 0; shift < 21; shift += 7) {
+      const byte = bytes[offset++] ?? 0;
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) break;
+    }
+    return value;
+  };
+
+  const signatureCount = shortVec();
+  offset += signatureCount * 64;
+  if (bytes[offset] & 0x80) offset += 1; // versioned message prefix
+  offset += 3; // header
+  const keys: string[] = [];
+  const keyCount = shortVec();
+  if (offset + keyCount * 32 > bytes.length) return;
+  for (let i = 0; i < keyCount; i++) {
+    keys.push(base58(bytes.subarray(offset, offset + 32)));
+    offset += 32;
+  }
+  offset += 32; // recent blockhash
+
+  const instructionCount = shortVec();
+  for (let i = 0; i < instructionCount && offset < bytes.length; i++) {
+    const programIndex = bytes[offset++];
+    const accounts = Array.from({ length: shortVec() }, () => bytes[offset++]);
+    const dataLength = shortVec();
+    const data = bytes.subarray(offset, offset + dataLength);
+    offset += dataLength;
+
+    if (!TOKEN_PROGRAMS.has(keys[programIndex]) || data[0] !== TRANSFER_CHECKED) continue;
+    // Accounts from address lookup tables aren't in `keys` and stay null
+    result.asset ??= keys[accounts[1]] ?? null;
+    result.payer = keys[accounts[3]] ?? null;
+    result.amount ??= new DataView(data.buffer, data.byteOffset + 1, 8)
+      .getBigUint64(0, true)
+      .toString();
+    return;
+  }
+}
+
+/**
+ * Decode base64 (or base64url, as Buffer accepts) with atob, so decoding
+ * works on edge runtimes without Buffer.
+ */
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.trim().replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeBase64Text(text: string): string {
+  return new TextDecoder().decode(decodeBase64(text));
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+/**
+ * Lowercase 0x EVM addresses so they match the wallet columns. Anything else
+ * (Solana base58) is case-sensitive and kept as is.
+ */
+export function normalizeAddress(address: string): string;
+export function normalizeAddress(address: string | null): string | null;
+export function normalizeAddress(address: string | null): string | null {
+  return address?.startsWith('0x') ? address.toLowerCase() : address;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  return null;
+}
+
+function seconds(value: unknown): number | null {
+  const parsed = Number(str(value));
+  return str(value) !== null && Number.isFinite(parsed) ? parsed : null;
+}
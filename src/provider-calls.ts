@@ -0,0 +1,218 @@
+/**
+ * Outbound provider call tracking behind ctx.fetch. Each call is written to
+ * provider_calls, linked to the invocation by `request_id`, so upstream
+ * latency and failures can be told apart from the server's own.
+ *
+ * The row is written once the response body has been read (or cancelled),
+ * so `duration` and `response_bytes` cover the whole transfer. Bodies the
+ * handler never reads are written when the invocation row is.
+ */
+
+import type { ProviderCallRecord, ProviderFetch, ProviderFetchInit } from './types';
+import { writeToSink } from './sinks';
+import { redactRow } from './redact';
+import type { TelemetryRuntime } from './init';
+import { formatTraceparent, newSpanId, type TraceContext } from './trace-context';
+
+/** The invocation the calls belong to — RequestMeta, or the router plugin's. */
+export interface ProviderCallOwner {
+  readonly requestId: string;
+  readonly route: string;
+  readonly origin: string;
+  /** Finishers for calls whose body is still unread */
+  readonly pendingProviderCalls: Set<() => void>;
+  /** Passed on to providers in `traceparent` / `tracestate` */
+  readonly trace: TraceContext;
+}
+
+interface CallOutcome {
+  status: number | null;
+  responseBytes: number | null;
+  cost: number | null;
+  error: string | null;
+}
+
+/**
+ * Build ctx.fetch for one invocation. Behaves like fetch — the extra
+ * `provider` and `cost` init fields are stripped — and never fails because
+ * of telemetry. Each call is a child span of the invocation; its
+ * `traceparent` is added unless the caller set one.
+ */
+export function createProviderFetch(
+  owner: ProviderCallOwner,
+  runtime: TelemetryRuntime,
+): ProviderFetch {
+  return async (input, init) => {
+    const { provider, cost, ...requestInit } = init ?? ({} as ProviderFetchInit);
+    const startedAt = Date.now();
+    const spanId = newSpanId();
+    let host = '';
+    let method = 'GET';
+    let requestBytes: number | null = null;
+    try {
+      const request = input instanceof Request ? input : null;
+      host = new URL(request ? request.url : String(input)).host;
+      method = (requestInit.method ?? request?.method ?? 'GET').toUpperCase();
+      const headers = new Headers(requestInit.headers ?? request?.headers);
+      requestBytes = bodySize(requestInit.body) ?? contentLength(headers);
+      if (!headers.has('traceparent')) {
+        headers.set('traceparent', formatTraceparent(owner.trace, spanId));
+        if (owner.trace.state) headers.set('tracestate', owner.trace.state);
+        requestInit.headers = headers;
+      }
+    } catch {
+      // Unparseable input — fetch reports it below
+    }
+
+    const write = (outcome: CallOutcome) => {
+      try {
+        const row: ProviderCallRecord = {
+          request_id: owner.requestId,
+          trace_id: owner.trace.traceId,
+          span_id: spanId,
+          parent_span_id: owner.trace.spanId,
+          provider: provider ?? host,
+          host,
+          method,
+          route: owner.route,
+          origin: owner.origin,
+          status: outcome.status,
+          duration: Date.now() - startedAt,
+          request_bytes: requestBytes,
+          response_bytes: outcome.responseBytes,
+          cost: outcome.cost,
+          error: outcome.error,
+          created_at: new Date(startedAt),
+        };
+        writeToSink(runtime.sink, 'provider_calls', [
+          redactRow('provider_calls', row, runtime.redaction),
+        ]);
+      } catch {
+        // Never affects the handler
+      }
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(input, requestInit);
+    } catch (error) {
+      write({
+        status: null,
+        responseBytes: null,
+        cost: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    let callCost: number | null = null;
+    try {
+      callCost = (typeof cost === 'function' ? cost(response) : cost) ?? null;
+    } catch {
+      // A throwing cost callback leaves cost null
+    }
+
+    if (!response.body) {
+      write({ status: response.status, responseBytes: 0, cost: callCost, error: null });
+      return response;
+    }
+    try {
+      return countBody(response, owner.pendingProviderCalls, (responseBytes, error) =>
+        write({ status: response.status, responseBytes, cost: callCost, error }),
+      );
+    } catch {
+      write({ status: response.status, responseBytes: null, cost: callCost, error: null });
+      return response;
+    }
+  };
+}
+
+/**
+ * Write the rows of calls whose bodies were never read to the end, with the
+ * bytes read so far. Called right before the invocation row is written.
+ */
+export function finishProviderCalls(pending: Set<() => void>): void {
+  for (const finish of [...pending]) {
+    try {
+      finish();
+    } catch {
+      // Never affects the invocation row
+    }
+  }
+}
+
+/**
+ * Re-wrap the response so its body is counted as the handler reads it.
+ * `done` is called once: at the end of the body, on a read error or cancel,
+ * or from finishProviderCalls.
+ */
+function countBody(
+  response: Response,
+  pending: Set<() => void>,
+  done: (bytes: number, error: string | null) => void,
+): Response {
+  const reader = response.body!.getReader();
+  let bytes = 0;
+  let finished = false;
+  const finish = (error: string | null) => {
+    if (finished) return;
+    finished = true;
+    pending.delete(unread);
+    done(bytes, error);
+  };
+  const unread = () => finish('body not fully read');
+  pending.add(unread);
+
+  const body = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        try {
+          const { done: ended, value } = await reader.read();
+          if (ended) {
+            controller.close();
+            finish(null);
+            return;
+          }
+          bytes += value.byteLength;
+          controller.enqueue(value);
+        } catch (error: unknown) {
+          controller.error(error);
+          finish(error instanceof Error ? error.message : String(error));
+        }
+      },
+      async cancel(reason) {
+        finish('body cancelled');
+        await reader.cancel(reason);
+      },
+    },
+    // Pull only when the handler reads, so unread bytes aren't counted
+    { highWaterMark: 0 },
+  );
+
+  const counted = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // A constructed Response has no URL; keep the upstream one for the handler
+  Object.defineProperty(counted, 'url', { value: response.url });
+  Object.defineProperty(counted, 'redirected', { value: response.redirected });
+  return counted;
+}
+
+/** Size of a request body fetch will send, when it can be known without reading it. */
+function bodySize(body: BodyInit | null | undefined): number | null {
+  if (body === null || body === undefined) return null;
+  if (typeof body === 'string') return new TextEncoder().encode(body).byteLength;
+  if (body instanceof URLSearchParams) return new TextEncoder().encode(body.toString()).byteLength;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  if (body instanceof Blob) return body.size;
+  return null;
+}
+
+function contentLength(headers: Headers): number | null {
+  const value = headers.get('content-length');
+  if (value === null) return null;
+  const length = Number(value);
+  return Number.isFinite(length) ? length : null;
+}
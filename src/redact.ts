@@ -0,0 +1,209 @@
+/**
+ * Redaction of sensitive headers and body fields before rows reach a sink.
+ *
+ * Applied uniformly by recordInvocation (withTelemetry, withSiwxTelemetry,
+ * the route builder), ctx.fetch and the router plugin, to every table.
+ * Verified-wallet extraction reads the raw request headers first, so
+ * redacting PAYMENT-SIGNATURE doesn't lose it.
+ */
+
+import type {
+  McpResourceInvocation,
+  RedactionConfig,
+  TelemetryTable,
+  TelemetryTables,
+} from './types';
+
+export const REDACTED = '[REDACTED]';
+
+/** Headers redacted unless `redact: false` — credentials, payment proofs, auth. */
+export const DEFAULT_REDACTED_HEADERS: readonly string[] = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'payment-signature',
+  'x-payment',
+  'sign-in-with-x',
+];
+
+/** Built-in scrubbers selectable by name in `redact.scrub`. */
+export const SCRUBBERS: Readonly<Record<'emails' | 'keys', readonly RegExp[]>> = {
+  emails: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+  keys: [
+    /\bBearer\s+[A-Za-z0-9._~+/-]+=*/g,
+    /\bsk-[A-Za-z0-9_-]{20,}/g,
+    /\b[spr]k_(?:live|test)_[A-Za-z0-9]{10,}/g,
+    /\bAKIA[0-9A-Z]{16}\b/g,
+  ],
+};
+
+export interface RedactionPolicy {
+  denyHeaders: Set<string>;
+  /** When set, every header not listed is redacted. */
+  allowHeaders: Set<string> | null;
+  bodyPaths: string[][];
+  patterns: RegExp[];
+}
+
+/**
+ * Resolve a RedactionConfig into a policy. `false` disables redaction
+ * entirely; `undefined` applies the default header deny list only.
+ */
+export function resolveRedaction(config?: RedactionConfig | false): RedactionPolicy | null {
+  if (config === false) return null;
+  const lower = (names: string[]) => names.map((name) => name.toLowerCase());
+  return {
+    denyHeaders: new Set([...DEFAULT_REDACTED_HEADERS, ...lower(config?.headers?.deny ?? [])]),
+    allowHeaders: config?.headers?.allow ? new Set(lower(config.headers.allow)) : null,
+    bodyPaths: (config?.bodyPaths ?? []).map((path) => path.split('.')),
+    patterns: (config?.scrub ?? [])
+      .flatMap((scrubber) => (typeof scrubber === 'string' ? SCRUBBERS[scrubber] : [scrubber]))
+      // Scrub every match, not just the first
+      .map((pattern) =>
+        pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g'),
+      ),
+  };
+}
+
+/**
+ * Return a copy of the row with headers and bodies redacted per the policy.
+ * Attribute values only go through the scrubbers.
+ */
+export function redactInvocation(
+  row: McpResourceInvocation,
+  policy: RedactionPolicy | null,
+): McpResourceInvocation {
+  if (!policy) return row;
+  return {
+    ...row,
+    request_headers: redactHeadersJson(row.request_headers, policy),
+    response_headers: redactHeadersJson(row.response_headers, policy),
+    request_body: redactBody(row.request_body, policy),
+    response_body: redactBody(row.response_body, policy),
+    attributes: redactAttributes(row.attributes, policy),
+  };
+}
+
+/**
+ * Return a copy of a row of any table, redacted per the policy. Invocations
+ * go through redactInvocation; router event meta is masked like a body; the
+ * other free-text fields only go through the scrubbers.
+ */
+export function redactRow<T extends TelemetryTable>(
+  table: T,
+  row: TelemetryTables[T],
+  policy: RedactionPolicy | null,
+): TelemetryTables[T] {
+  if (!policy) return row;
+  const tables: { [K in TelemetryTable]: (row: TelemetryTables[K]) => TelemetryTables[K] } = {
+    mcp_resource_invocations: (invocation) => redactInvocation(invocation, policy),
+    router_events: (event) => ({
+      ...event,
+      message: scrub(event.message, policy.patterns),
+      meta: redactBody(event.meta, policy),
+    }),
+    provider_quota_events: (quota) => ({
+      ...quota,
+      message: scrub(quota.message, policy.patterns),
+    }),
+    provider_calls: (call) => ({
+      ...call,
+      error: scrubNullable(call.error, policy.patterns),
+    }),
+    x402_payments: (payment) => ({
+      ...payment,
+      amount: scrubNullable(payment.amount, policy.patterns),
+      network: scrub(payment.network, policy.patterns),
+      transaction: scrubNullable(payment.transaction, policy.patterns),
+    }),
+  };
+  return (tables[table] as (row: TelemetryTables[T]) => TelemetryTables[T])(row);
+}
+
+function redactAttributes(
+  attributes: Record<string, string> | undefined,
+  policy: RedactionPolicy,
+): Record<string, string> {
+  // Rows spooled before the column existed have none
+  return Object.fromEntries(
+    Object.entries(attributes ?? {}).map(([key, value]) => [key, scrub(value, policy.patterns)]),
+  );
+}
+
+function redactHeadersJson(json: string | null, policy: RedactionPolicy): string | null {
+  if (json === null) return null;
+  let headers: Record<string, string>;
+  try {
+    headers = JSON.parse(json) as Record<string, string>;
+  } catch {
+    return scrub(json, policy.patterns);
+  }
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    const denied =
+      policy.denyHeaders.has(key) ||
+      (policy.allowHeaders !== null && !policy.allowHeaders.has(key));
+    redacted[name] = denied ? REDACTED : scrub(String(value), policy.patterns);
+  }
+  return JSON.stringify(redacted);
+}
+
+function redactBody(body: string | null, policy: RedactionPolicy): string | null {
+  if (body === null) return null;
+  if (policy.bodyPaths.length > 0) {
+    try {
+      const parsed: unknown = JSON.parse(body);
+      for (const path of policy.bodyPaths) {
+        maskPath(parsed, path);
+      }
+      body = JSON.stringify(parsed);
+    } catch {
+      // Not JSON, or cut at the capture limit — the paths can't be found, so
+      // mask the whole body rather than store them raw
+      return REDACTED;
+    }
+  }
+  return scrub(body, policy.patterns);
+}
+
+/**
+ * Mask the value(s) at a dotted path. `*` matches any one key or array
+ * index; `**` matches any depth (e.g. `**.password`).
+ */
+function maskPath(node: unknown, path: string[]): void {
+  if (node === null || typeof node !== 'object' || path.length === 0) return;
+  const [segment, ...rest] = path;
+  const record = node as Record<string, unknown>;
+
+  if (segment === '**') {
+    maskPath(node, rest);
+    for (const child of Object.values(record)) {
+      maskPath(child, path);
+    }
+    return;
+  }
+
+  // Object.keys, not `in`, so array internals like `length` never match
+  for (const key of Object.keys(record)) {
+    if (segment !== '*' && key !== segment) continue;
+    if (rest.length === 0) {
+      record[key] = REDACTED;
+    } else {
+      maskPath(record[key], rest);
+    }
+  }
+}
+
+function scrubNullable(value: string | null, patterns: RegExp[]): string | null {
+  return value === null ? null : scrub(value, patterns);
+}
+
+function scrub(value: string, patterns: RegExp[]): string {
+  for (const pattern of patterns) {
+    value = value.replace(pattern, REDACTED);
+  }
+  return value;
+}
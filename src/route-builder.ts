@@ -2,16 +2,26 @@
  * Convenience route builder that composes telemetry + validation + x402 wrapping.
  * This is optional — servers can use withTelemetry directly.
  *
- * Import from '@agentcash/telemetry/builder'.
- * Requires peer deps: @x402/next, zod (^4), @x402/extensions
+ * Import from '@agentcash/telemetry/builder', or use createTelemetry().createRouteBuilder.
+ * Paid routes require peer deps: @x402/next, zod (^4), @x402/extensions. They
+ * are loaded when a paid route is defined, so free routes and the core
+ * entrypoint work without them. A failed load is logged and retried on the
+ * route's next request.
  */
 
-import { type NextRequest, NextResponse } from 'next/server';
-import { withX402 } from '@x402/next';
-import { z, type ZodType } from 'zod';
-import { declareDiscoveryExtension } from '@x402/extensions/bazaar';
+import { type NextRequest, NextResponse, after } from 'next/server';
+import type { ZodError, ZodType } from 'zod';
 import type { TelemetryContext } from './types';
-import { extractRequestMeta, buildTelemetryContext, recordInvocation } from './telemetry-core';
+import {
+  extractRequestMeta,
+  buildTelemetryContext,
+  extractSettlement,
+  recordInvocation,
+} from './telemetry-core';
+import { flushSink } from './sinks';
+import { getDefaultRuntime, type TelemetryRuntime } from './init';
+import type { DecodedSettlement } from './payment-header';
+import type { TelemetryInstance } from './instance';
 
 export class HttpError extends Error {
   constructor(
@@ -49,7 +59,7 @@ type HandlerFn<TBody, TQuery, TResponse> = (
   ctx: HandlerContext<TBody, TQuery>,
 ) => Promise<TResponse>;
 
-function formatValidationError(error: import('zod').ZodError): string {
+function formatValidationError(error: ZodError): string {
   const issues = error.issues;
   if (issues.length === 0) return 'Validation failed';
 
@@ -73,6 +83,14 @@ function formatValidationError(error: import('zod').ZodError): string {
 export interface RouteBuilderOptions {
   /** The x402 resource server instance (from @x402/core/server). Required when using .price(). */
   x402Server?: unknown;
+  /**
+   * Reject callers whose identity headers break the spec's header contract
+   * (see identity_violations) with a 400 before validation or the handler run.
+   * Default: false — violations are only recorded.
+   */
+  strictIdentity?: boolean;
+  /** Instance from createTelemetry() to record through. Default: the initTelemetry() config. */
+  telemetry?: TelemetryInstance;
 }
 
 class RouteBuilder<TBody = unknown, TQuery = unknown, TOutput = unknown> {
@@ -145,17 +163,37 @@ class RouteBuilder<TBody = unknown, TQuery = unknown, TOutput = unknown> {
     const { accepts, bodySchema, querySchema, outputSchema, outputExample, description } =
       this.config;
 
+    // Paid routes log once withX402 has settled, so the row carries the settlement result
+    const settles = accepts.length > 0 && process.env.X402_BYPASS !== 'true';
+    const pendingLogs = new WeakMap<NextRequest, PendingLog>();
+    const runtime = this.options.telemetry?.runtime ?? getDefaultRuntime();
+
     const coreHandler = async (request: NextRequest): Promise<NextResponse> => {
-      const meta = extractRequestMeta(request);
-      const ctx = buildTelemetryContext(meta);
+      const meta = extractRequestMeta(request, runtime);
+      const ctx = buildTelemetryContext(meta, runtime);
 
       const log = (status: number, responseBody: string | null, resp: NextResponse) => {
-        recordInvocation(meta, requestBodyString, {
-          status,
-          body: responseBody,
-          headers: JSON.stringify(Object.fromEntries(resp.headers.entries())),
-          contentType: resp.headers.get('content-type') ?? null,
-        });
+        const record = async (final: Response | null) => {
+          const sent = final ?? resp;
+          recordInvocation(
+            meta,
+            requestBodyString,
+            {
+              status,
+              body: responseBody,
+              headers: JSON.stringify(Object.fromEntries(sent.headers.entries())),
+              contentType: resp.headers.get('content-type') ?? null,
+              settlement: final ? await settlementOf(final, status) : null,
+            },
+            runtime,
+          );
+        };
+        if (settles) {
+          pendingLogs.set(request, record);
+        } else {
+          void record(null);
+          scheduleFlush(runtime);
+        }
       };
 
       // Parse and validate body
@@ -163,6 +201,17 @@ class RouteBuilder<TBody = unknown, TQuery = unknown, TOutput = unknown> {
       let query: TQuery = undefined as TQuery;
       let requestBodyString: string | null = null;
 
+      if (this.options.strictIdentity && meta.identityViolations.length > 0) {
+        const errorBody = {
+          success: false,
+          error: 'Invalid identity headers',
+          violations: meta.identityViolations,
+        };
+        const errorResp = NextResponse.json(errorBody, { status: 400 });
+        log(400, JSON.stringify(errorBody), errorResp);
+        return errorResp;
+      }
+
       if (bodySchema) {
         let rawBody: unknown;
         try {
@@ -274,20 +323,118 @@ class RouteBuilder<TBody = unknown, TQuery = unknown, TOutput = unknown> {
         payTo: X402_PAYEE_ADDRESS,
         ...(asset && { extra: { asset } }),
       })),
-      extensions: buildDiscoveryExtensions(bodySchema, querySchema, outputSchema, outputExample),
     };
 
-    if (!this.options.x402Server) {
+    const x402Server = this.options.x402Server;
+    if (!x402Server) {
       throw new Error(
         'x402Server is required when using .price(). Pass it to createRouteBuilder({ x402Server }).',
       );
     }
 
-    return withX402(coreHandler, routeConfig, this.options.x402Server as never);
+    let paidHandler: Promise<(request: NextRequest) => Promise<NextResponse>> | null = null;
+    const buildPaidHandler = () => {
+      const built = loadPaidRouteDeps().then((deps) =>
+        deps.withX402(
+          coreHandler,
+          {
+            ...routeConfig,
+            extensions: buildDiscoveryExtensions(
+              deps,
+              bodySchema,
+              querySchema,
+              outputSchema,
+              outputExample,
+            ),
+          },
+          x402Server as never,
+        ),
+      );
+      // A failed import or extension build is retried on the next request
+      built.catch(() => {
+        if (paidHandler === built) paidHandler = null;
+      });
+      return built;
+    };
+
+    // Start when the route is defined, so config errors show up at startup
+    paidHandler = buildPaidHandler();
+    paidHandler.catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[telemetry] Paid route setup failed:', message);
+    });
+
+    return async (request: NextRequest): Promise<NextResponse> => {
+      paidHandler ??= buildPaidHandler();
+
+      let response: NextResponse | null = null;
+      try {
+        response = await (await paidHandler)(request);
+        return response;
+      } finally {
+        // Set only if the payment verified and the core handler ran
+        const pending = pendingLogs.get(request);
+        pendingLogs.delete(request);
+        try {
+          // The client reads the original; a 402's body is read from this copy later
+          const final = pending && response?.status === 402 ? response.clone() : response;
+          if (pending) {
+            afterResponse(async () => {
+              try {
+                await pending(final);
+              } catch {
+                // Telemetry never affects the response
+              }
+              await flushSink(runtime.sink);
+            });
+          }
+        } catch {
+          // Telemetry never affects the response
+        }
+      }
+    };
+  }
+}
+
+type PaidRouteDeps = Awaited<ReturnType<typeof loadPaidRouteDeps>>;
+
+/** The optional peer deps of paid routes, loaded when a paid route is defined. */
+async function loadPaidRouteDeps() {
+  const [{ withX402 }, { z }, { declareDiscoveryExtension }] = await Promise.all([
+    import('@x402/next'),
+    import('zod'),
+    import('@x402/extensions/bazaar'),
+  ]);
+  return { withX402, z, declareDiscoveryExtension };
+}
+
+/** Records a builder invocation once the final (settled) response is known. */
+type PendingLog = (final: Response | null) => Promise<void>;
+
+/**
+ * Settlement result for a paid route's final response: the decoded
+ * PAYMENT-RESPONSE header, or a failure when withX402 replaced a successful
+ * handler response with its 402 "Settlement failed".
+ */
+async function settlementOf(
+  response: Response,
+  handlerStatus: number,
+): Promise<DecodedSettlement | null> {
+  const settlement = extractSettlement(response);
+  if (settlement || response.status !== 402 || handlerStatus >= 400) return settlement;
+
+  let errorReason: string | null = null;
+  try {
+    const body = (await response.clone().json()) as { details?: unknown };
+    errorReason = typeof body.details === 'string' ? body.details : null;
+  } catch {
+    // No JSON details
   }
+  return { success: false, transaction: null, network: null, payer: null, errorReason };
 }
 
 function buildDiscoveryExtensions(
+  { z, declareDiscoveryExtension }: PaidRouteDeps,
   bodySchema?: ZodType<unknown>,
   querySchema?: ZodType<unknown>,
   outputSchema?: ZodType<unknown>,
@@ -316,6 +463,30 @@ function buildDiscoveryExtensions(
   return { ...declareDiscoveryExtension(config as never) };
 }
 
+/**
+ * Flush batched rows once the response has been sent, via Next.js after().
+ * Outside a request scope after() throws — the batch timer flushes instead.
+ */
+function scheduleFlush(runtime: TelemetryRuntime): void {
+  try {
+    after(() => flushSink(runtime.sink));
+  } catch {
+    // Not in a request scope
+  }
+}
+
+/**
+ * Run a task once the response has been sent, via Next.js after(). Outside a
+ * request scope after() throws — the task then runs right away, unawaited.
+ */
+function afterResponse(task: () => Promise<void>): void {
+  try {
+    after(task);
+  } catch {
+    void task();
+  }
+}
+
 /**
  * Create a new route builder instance.
  */
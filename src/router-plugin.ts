@@ -1,7 +1,7 @@
 /**
  * RouterPlugin adapter for @agentcash/router.
  *
- * Bridges the router's plugin hooks into ClickHouse telemetry.
+ * Bridges the router's plugin hooks into ClickHouse telemetry (or a custom sink).
  * Uses the same mcp_resource_invocations table as the legacy withTelemetry wrapper.
  *
  * Usage:
@@ -21,8 +21,25 @@
  *   });
  */
 
-import { initClickhouse, pingClickhouse, insertInvocation } from './clickhouse';
-import type { McpResourceInvocation, TelemetryConfig } from './types';
+import { createRuntime, type TelemetryRuntime } from './init';
+import { flushSink, writeToSink } from './sinks';
+import { classifyClient } from './client-registry';
+import { redactRow } from './redact';
+import { sampleInvocation } from './sampling';
+import { decodePaymentHeader, normalizeAddress, readPaymentHeader } from './payment-header';
+import { identityConfidence, reportIdentityMismatch, validateIdentityHeaders } from './identity';
+import { createAttributeSetters } from './attributes';
+import { createProviderFetch, finishProviderCalls } from './provider-calls';
+import { resolveTraceContext, type TraceContext } from './trace-context';
+import type {
+  McpResourceInvocation,
+  ProviderQuotaRecord,
+  RouterEventRecord,
+  ProviderFetch,
+  TelemetryAttributes,
+  TelemetryConfig,
+  X402Payment,
+} from './types';
 
 // ---------------------------------------------------------------------------
 // Minimal RouterPlugin types (inlined to avoid depending on @agentcash/router
@@ -114,9 +131,15 @@ interface RouterPlugin {
 // Extended context — carries request metadata through the lifecycle
 // ---------------------------------------------------------------------------
 
-interface TelemetryPluginContext extends PluginContext {
+interface TelemetryPluginContext extends PluginContext, TelemetryPluginExtensions {
   /** Stored from onRequest for use in onResponse */
   _meta: RequestMeta;
+  /** Written by setAttribute() / addTags() */
+  _attributes: Record<string, string>;
+  /** fetch() calls whose response body is still unread */
+  _pendingProviderCalls: Set<() => void>;
+  /** From the request's traceparent, or a new trace */
+  _trace: TraceContext;
   /** Payment info captured between verify and response */
   _payment?: PaymentEvent;
   /** Settlement info captured between settle and response */
@@ -127,26 +150,82 @@ interface TelemetryPluginContext extends PluginContext {
 // Plugin factory
 // ---------------------------------------------------------------------------
 
+/**
+ * What the plugin adds to the context onRequest returns: setAttribute(),
+ * addTags() and a fetch() that records provider_calls rows.
+ */
+export interface TelemetryPluginExtensions extends TelemetryAttributes {
+  fetch: ProviderFetch;
+}
+
+export type { TelemetryAttributes, ProviderFetch };
+
+/** The plugin plus a flush() for draining batched rows. */
+export interface TelemetryPlugin extends RouterPlugin {
+  /** Drain buffered and in-flight writes. Never rejects. */
+  flush(): Promise<void>;
+}
+
 export interface TelemetryPluginConfig {
-  clickhouse: TelemetryConfig['clickhouse'];
-  /** If true, pings ClickHouse on init. */
+  clickhouse?: TelemetryConfig['clickhouse'];
+  /** Custom destination for rows. Replaces the ClickHouse sink built from `clickhouse`. */
+  sink?: TelemetryConfig['sink'];
+  /** If true, pings the sink and checks the ClickHouse schema for drift on init. */
   verify?: boolean;
+  /** Buffer rows and write them in batches. Drain with plugin.flush(). */
+  batch?: TelemetryConfig['batch'];
+  /** Spool failed writes to disk and replay them later. */
+  spool?: TelemetryConfig['spool'];
+  /** Extra Client Registry entries (X-Client-ID → client_type label), merged over the defaults. */
+  clients?: TelemetryConfig['clients'];
+  /** Header/body redaction before rows reach the sink. Default: sensitive headers only. */
+  redact?: TelemetryConfig['redact'];
+  /** Per-route sampling of invocation rows. Payment, quota, event and provider call rows are always kept. */
+  sample?: TelemetryConfig['sample'];
+  /** Called when the paying wallet differs from the claimed X-Wallet-Address. */
+  onIdentityMismatch?: TelemetryConfig['onIdentityMismatch'];
+  /** Create missing tables and apply pending migrations on init. Requires `clickhouse`. */
+  ensureSchema?: boolean;
   /** Console logging for dev. Default: false. */
   console?: boolean;
 }
 
-export function createTelemetryPlugin(config: TelemetryPluginConfig): RouterPlugin {
-  // Initialize ClickHouse synchronously (connection happens on first query)
-  initClickhouse(config.clickhouse);
-  if (config.verify) {
-    pingClickhouse();
-  }
+export function createTelemetryPlugin(config: TelemetryPluginConfig): TelemetryPlugin {
+  // Resolve the sink synchronously (ClickHouse connects on first query)
+  return createRuntimePlugin(createRuntime(config), config.console ?? false);
+}
 
-  const log = config.console ?? false;
+/**
+ * Build the plugin around an already-resolved runtime, so a createTelemetry()
+ * instance's plugin shares its sink and settings.
+ */
+export function createRuntimePlugin(runtime: TelemetryRuntime, log: boolean): TelemetryPlugin {
+  const { sink, clientRegistry, redaction, sampling } = runtime;
 
   return {
+    flush(): Promise<void> {
+      return flushSink(sink);
+    },
+
     onRequest(meta: RequestMeta): PluginContext {
+      const attributes: Record<string, string> = {};
+      const pendingProviderCalls = new Set<() => void>();
+      let trace: TraceContext;
+      let fetch: ProviderFetch;
+      try {
+        const headers = new Headers(meta.headers);
+        trace = resolveTraceContext(headers.get('traceparent'), headers.get('tracestate'));
+        fetch = createProviderFetch({ ...meta, pendingProviderCalls, trace }, runtime);
+      } catch (error) {
+        // Malformed meta must not fail the request — start a trace and leave fetch unrecorded
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[telemetry] onRequest failed:', message);
+        trace = resolveTraceContext(null, null);
+        fetch = (input, init) => globalThis.fetch(input, init);
+      }
       const ctx: TelemetryPluginContext = {
+        ...createAttributeSetters(attributes),
+        fetch,
         requestId: meta.requestId,
         route: meta.route,
         walletAddress: meta.walletAddress,
@@ -157,6 +236,9 @@ export function createTelemetryPlugin(config: TelemetryPluginConfig): RouterPlug
           ctx.verifiedWallet = address;
         },
         _meta: meta,
+        _attributes: attributes,
+        _pendingProviderCalls: pendingProviderCalls,
+        _trace: trace,
       };
       return ctx as PluginContext;
     },
@@ -176,56 +258,132 @@ export function createTelemetryPlugin(config: TelemetryPluginConfig): RouterPlug
     },
 
     onResponse(ctx: PluginContext, response: ResponseMeta) {
-      const tCtx = ctx as TelemetryPluginContext;
-      const meta = tCtx._meta;
+      try {
+        const tCtx = ctx as TelemetryPluginContext;
+        const meta = tCtx._meta;
+        finishProviderCalls(tCtx._pendingProviderCalls);
 
-      if (log) {
-        const wallet = ctx.verifiedWallet ? ` wallet=${ctx.verifiedWallet}` : '';
-        console.log(
-          `[telemetry] ${meta.route} → ${response.statusCode} (${response.duration}ms)${wallet}`,
-        );
-      }
+        if (log) {
+          const wallet = ctx.verifiedWallet ? ` wallet=${ctx.verifiedWallet}` : '';
+          console.log(
+            `[telemetry] ${meta.route} → ${response.statusCode} (${response.duration}ms)${wallet}`,
+          );
+        }
 
-      // 402 is the x402/MPP payment challenge — not a real invocation, skip logging
-      if (response.statusCode === 402) {
-        return;
-      }
+        // 402 is the x402/MPP payment challenge — not a real invocation, skip logging
+        if (response.statusCode === 402) {
+          return;
+        }
 
-      const row: McpResourceInvocation = {
-        id: meta.requestId,
-        x_wallet_address: meta.walletAddress?.toLowerCase() ?? null,
-        x_client_id: meta.clientId,
-        session_id: meta.sessionId,
-        verified_wallet_address: ctx.verifiedWallet?.toLowerCase() ?? null,
+        const paymentHeader = readPaymentHeader(new Headers(meta.headers));
+        const decoded = paymentHeader ? decodePaymentHeader(paymentHeader) : null;
 
-        method: meta.method,
-        route: meta.route,
-        origin: meta.origin,
-        referer: meta.referer,
-        request_content_type: meta.contentType,
-        request_headers: JSON.stringify(meta.headers),
-        request_body: null,
-
-        status_code: response.statusCode,
-        status_text: response.statusText,
-        duration: response.duration,
-        response_content_type: response.contentType,
-        response_headers: JSON.stringify(response.headers),
-        response_body: null,
+        const row: McpResourceInvocation = {
+          id: meta.requestId,
+          trace_id: tCtx._trace.traceId,
+          span_id: tCtx._trace.spanId,
+          parent_span_id: tCtx._trace.parentSpanId,
+          x_wallet_address: meta.walletAddress?.toLowerCase() ?? null,
+          x_client_id: meta.clientId,
+          client_type: classifyClient(meta, clientRegistry),
+          session_id: meta.sessionId,
+          mcp_host: new Headers(meta.headers).get('X-MCP-Host'),
+          verified_wallet_address: normalizeAddress(ctx.verifiedWallet),
+          identity_confidence: identityConfidence(meta.walletAddress, ctx.verifiedWallet),
+          identity_violations: validateIdentityHeaders(meta, clientRegistry),
+          payment_scheme: decoded?.scheme ?? null,
+          payment_network: decoded?.network ?? null,
+          payment_asset: decoded?.asset ?? null,
+          payment_amount: decoded?.amount ?? null,
+          settlement_success: tCtx._settlement ? true : null,
+          settlement_transaction: tCtx._settlement?.transaction ?? null,
+          settlement_network: tCtx._settlement?.network ?? null,
+          settlement_error: null,
 
-        created_at: new Date(),
-      };
+          method: meta.method,
+          route: meta.route,
+          origin: meta.origin,
+          referer: meta.referer,
+          request_content_type: meta.contentType,
+          request_headers: JSON.stringify(meta.headers),
+          request_body: null,
+          request_body_size: null,
+          request_body_truncated: false,
+          request_body_sha256: null,
+
+          status_code: response.statusCode,
+          status_text: response.statusText,
+          duration: response.duration,
+          time_to_first_byte: null,
+          stream_duration: null,
+          stream_status: null,
+          response_content_type: response.contentType,
+          response_headers: JSON.stringify(response.headers),
+          response_body: null,
+          response_body_size: null,
+          response_body_truncated: false,
+          response_body_sha256: null,
+          sample_rate: 1,
+          body_sampled_out: false,
+          attributes: tCtx._attributes,
 
-      insertInvocation(row);
+          created_at: new Date(),
+        };
+
+        reportIdentityMismatch(row, runtime.onIdentityMismatch);
+        const sampled = sampleInvocation(row, sampling);
+        if (sampled) {
+          writeToSink(sink, 'mcp_resource_invocations', [
+            redactRow('mcp_resource_invocations', sampled, redaction),
+          ]);
+        }
+
+        const payment = buildPaymentRow(tCtx, row.created_at);
+        if (payment) {
+          writeToSink(sink, 'x402_payments', [redactRow('x402_payments', payment, redaction)]);
+        }
+      } catch (error) {
+        // Telemetry never affects the response
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[telemetry] onResponse failed:', message);
+      }
     },
 
     onError(ctx: PluginContext, error: ErrorEvent) {
+      const event: RouterEventRecord = {
+        request_id: ctx.requestId,
+        kind: 'error',
+        level: 'error',
+        message: error.message,
+        route: ctx.route,
+        origin: (ctx as TelemetryPluginContext)._meta?.origin ?? '',
+        meta: null,
+        status: error.status,
+        settled: error.settled,
+        created_at: new Date(),
+      };
+      writeToSink(sink, 'router_events', [redactRow('router_events', event, redaction)]);
+
       if (log) {
         console.error(`[telemetry] ERROR ${error.status}: ${error.message}`);
       }
     },
 
     onAlert(ctx: PluginContext, alert: AlertEvent) {
+      const event: RouterEventRecord = {
+        request_id: ctx.requestId,
+        kind: 'alert',
+        level: alert.level,
+        message: alert.message,
+        route: alert.route,
+        origin: (ctx as TelemetryPluginContext)._meta?.origin ?? '',
+        meta: alert.meta ? safeStringify(alert.meta) : null,
+        status: null,
+        settled: null,
+        created_at: new Date(),
+      };
+      writeToSink(sink, 'router_events', [redactRow('router_events', event, redaction)]);
+
       if (log) {
         const logFn =
           alert.level === 'critical' || alert.level === 'error'
@@ -241,6 +399,22 @@ export function createTelemetryPlugin(config: TelemetryPluginConfig): RouterPlug
     },
 
     onProviderQuota(ctx: PluginContext, event: ProviderQuotaEvent) {
+      const quota: ProviderQuotaRecord = {
+        request_id: ctx.requestId,
+        provider: event.provider,
+        route: event.route,
+        origin: (ctx as TelemetryPluginContext)._meta?.origin ?? '',
+        level: event.level,
+        remaining: event.remaining,
+        limit: event.limit,
+        overage: event.overage,
+        message: event.message,
+        created_at: new Date(),
+      };
+      writeToSink(sink, 'provider_quota_events', [
+        redactRow('provider_quota_events', quota, redaction),
+      ]);
+
       if (log) {
         const logFn =
           event.level === 'critical'
@@ -253,3 +427,36 @@ export function createTelemetryPlugin(config: TelemetryPluginConfig): RouterPlug
     },
   };
 }
+
+/**
+ * Combine the verified payment and settlement captured on the context into
+ * one x402_payments row. Returns null for unpaid requests.
+ */
+function buildPaymentRow(ctx: TelemetryPluginContext, createdAt: Date): X402Payment | null {
+  const payment = ctx._payment;
+  const settlement = ctx._settlement;
+  const source = settlement ?? payment;
+  if (!source) return null;
+
+  return {
+    request_id: ctx._meta.requestId,
+    protocol: source.protocol,
+    route: ctx._meta.route,
+    origin: ctx._meta.origin,
+    payer: normalizeAddress(source.payer),
+    amount: payment?.amount ?? null,
+    network: source.network,
+    transaction: settlement?.transaction ?? null,
+    settled: settlement !== undefined,
+    created_at: createdAt,
+  };
+}
+
+/** JSON.stringify that returns null instead of throwing (e.g. on circular meta). */
+function safeStringify(value: unknown): string | null {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Per-route sampling of invocation rows.
+ *
+ * Applied after the row is built, so the always-keep rules can look at the
+ * final status code and verified wallet. Payment, quota and router event
+ * rows are never sampled.
+ */
+
+import type { McpResourceInvocation, SampleMode, SamplingConfig } from './types';
+
+export interface SamplingPolicy {
+  rate: number;
+  mode: SampleMode;
+  rules: Array<{ pattern: RegExp; rate: number; mode: SampleMode }>;
+  keepErrors: boolean;
+  keepPaid: boolean;
+}
+
+/**
+ * Resolve a SamplingConfig into a policy. Returns null (keep every row)
+ * when no config is given.
+ */
+export function resolveSampling(config?: SamplingConfig): SamplingPolicy | null {
+  if (!config) return null;
+  const mode = config.mode ?? 'drop';
+  return {
+    rate: clampRate(config.rate ?? 1),
+    mode,
+    rules: (config.routes ?? []).map((rule) => ({
+      pattern: routeGlob(rule.route),
+      rate: clampRate(rule.rate),
+      mode: rule.mode ?? mode,
+    })),
+    keepErrors: config.keepErrors ?? true,
+    keepPaid: config.keepPaid ?? true,
+  };
+}
+
+/**
+ * Apply the policy to a row. Returns the row to write — with `sample_rate`
+ * set, or with bodies dropped and `body_sampled_out` set in 'bodies' mode —
+ * or null to skip it.
+ */
+export function sampleInvocation(
+  row: McpResourceInvocation,
+  policy: SamplingPolicy | null,
+  random: () => number = Math.random,
+): McpResourceInvocation | null {
+  if (!policy) return row;
+
+  const rule = policy.rules.find(({ pattern }) => pattern.test(row.route));
+  const rate = rule?.rate ?? policy.rate;
+  const mode = rule?.mode ?? policy.mode;
+  if (rate >= 1) return row;
+  if (policy.keepErrors && row.status_code >= 400) return row;
+  if (policy.keepPaid && row.verified_wallet_address) return row;
+
+  const sampled = random() < rate;
+  if (mode === 'bodies') {
+    // Every row is still written, so counts need no re-weighting
+    return sampled ? row : dropBodies(row);
+  }
+  return sampled ? { ...row, sample_rate: rate } : null;
+}
+
+/**
+ * Compile a route glob: `**` matches anything, `*` anything but '/'.
+ */
+export function routeGlob(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*'),
+    )
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+function dropBodies(row: McpResourceInvocation): McpResourceInvocation {
+  // Sizes stay, so the row still shows how much was sent
+  return {
+    ...row,
+    body_sampled_out: true,
+    request_body: null,
+    request_body_truncated: false,
+    request_body_sha256: null,
+    response_body: null,
+    response_body_truncated: false,
+    response_body_sha256: null,
+  };
+}
+
+function clampRate(rate: number): number {
+  return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 1;
+}
@@ -0,0 +1,572 @@
+/**
+ * Versioned ClickHouse schema migrations for the telemetry tables.
+ *
+ * Every statement is idempotent (IF NOT EXISTS), so running a migration
+ * against a table that was created or altered by hand is safe. Applied
+ * versions are recorded in telemetry_schema_migrations.
+ *
+ * To add a column: append a migration with the next version number, and
+ * update EXPECTED_COLUMNS below, the row type in types.ts and the DDL in
+ * docs/telemetry-spec.md. Never edit a migration that has shipped.
+ */
+
+import { createClickhouseClient, type ClickhouseClient } from './clickhouse';
+import type { ClickhouseConfig, TelemetryTable } from './types';
+
+export interface Migration {
+  version: number;
+  description: string;
+  statements: string[];
+}
+
+export interface SchemaResult {
+  /** Version before this run (0 = no migrations recorded). */
+  from: number;
+  /** Version after this run. */
+  to: number;
+  /** Versions applied by this run, in order. */
+  applied: number[];
+}
+
+export interface ColumnDrift {
+  name: string;
+  /** ClickHouse type the package writes against. Null for extra columns. */
+  expected: string | null;
+  /** ClickHouse type in the live table. Null for missing columns. */
+  actual: string | null;
+}
+
+export interface TableDrift {
+  table: TelemetryTable;
+  /** True when the table doesn't exist at all. */
+  tableMissing: boolean;
+  missing: ColumnDrift[];
+  extra: ColumnDrift[];
+  mistyped: ColumnDrift[];
+}
+
+export interface SchemaCheck {
+  ok: boolean;
+  /** Only tables with drift are listed. */
+  drift: TableDrift[];
+}
+
+const MIGRATIONS_TABLE = 'telemetry_schema_migrations';
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create mcp_resource_invocations',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS mcp_resource_invocations (
+        id                      String,
+        x_wallet_address        Nullable(String),
+        x_client_id             Nullable(String),
+        session_id              Nullable(String),
+        method                  String,
+        route                   String,
+        origin                  String,
+        referer                 Nullable(String),
+        request_content_type    Nullable(String),
+        request_headers         Nullable(String),
+        request_body            Nullable(String),
+        status_code             UInt16,
+        status_text             String,
+        duration                UInt32,
+        response_content_type   Nullable(String),
+        response_headers        Nullable(String),
+        response_body           Nullable(String),
+        created_at              DateTime64(3) DEFAULT now64(3)
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(created_at)
+      ORDER BY (created_at, id)`,
+    ],
+  },
+  {
+    version: 2,
+    description: 'Add verified_wallet_address',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS verified_wallet_address Nullable(String) AFTER session_id`,
+    ],
+  },
+  {
+    version: 3,
+    description: 'Create x402_payments',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS x402_payments (
+        request_id              String,
+        protocol                LowCardinality(String),
+        route                   String,
+        origin                  String,
+        payer                   String,
+        amount                  Nullable(String),
+        network                 LowCardinality(String),
+        transaction             Nullable(String),
+        settled                 Bool,
+        created_at              DateTime64(3) DEFAULT now64(3)
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(created_at)
+      ORDER BY (created_at, request_id)`,
+    ],
+  },
+  {
+    version: 4,
+    description: 'Create provider_quota_events',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS provider_quota_events (
+        request_id              String,
+        provider                LowCardinality(String),
+        route                   String,
+        origin                  String,
+        level                   LowCardinality(String),
+        remaining               Nullable(Int64),
+        \`limit\`                 Nullable(Int64),
+        overage                 String,
+        message                 String,
+        created_at              DateTime64(3) DEFAULT now64(3)
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(created_at)
+      ORDER BY (provider, created_at)`,
+    ],
+  },
+  {
+    version: 5,
+    description: 'Create router_events',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS router_events (
+        request_id              String,
+        kind                    LowCardinality(String),
+        level                   LowCardinality(String),
+        message                 String,
+        route                   String,
+        origin                  String,
+        meta                    Nullable(String),
+        status                  Nullable(UInt16),
+        settled                 Nullable(Bool),
+        created_at              DateTime64(3) DEFAULT now64(3)
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(created_at)
+      ORDER BY (created_at, request_id)`,
+    ],
+  },
+  {
+    version: 6,
+    description: 'Add client_type',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS client_type LowCardinality(String) DEFAULT 'Unknown' AFTER x_client_id`,
+    ],
+  },
+  {
+    version: 7,
+    description: 'Add body size, truncation and digest columns',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS request_body_size Nullable(UInt64) AFTER request_body,
+        ADD COLUMN IF NOT EXISTS request_body_truncated Bool DEFAULT false AFTER request_body_size,
+        ADD COLUMN IF NOT EXISTS request_body_sha256 Nullable(String) AFTER request_body_truncated,
+        ADD COLUMN IF NOT EXISTS response_body_size Nullable(UInt64) AFTER response_body,
+        ADD COLUMN IF NOT EXISTS response_body_truncated Bool DEFAULT false AFTER response_body_size,
+        ADD COLUMN IF NOT EXISTS response_body_sha256 Nullable(String) AFTER response_body_truncated`,
+    ],
+  },
+  {
+    version: 8,
+    description: 'Add streaming response timing',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS time_to_first_byte Nullable(UInt32) AFTER duration,
+        ADD COLUMN IF NOT EXISTS stream_duration Nullable(UInt32) AFTER time_to_first_byte,
+        ADD COLUMN IF NOT EXISTS stream_status LowCardinality(Nullable(String)) AFTER stream_duration`,
+    ],
+  },
+  {
+    version: 9,
+    description: 'Add sample_rate',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS sample_rate Float32 DEFAULT 1 AFTER response_body_sha256`,
+    ],
+  },
+  {
+    version: 10,
+    description: 'Add identity_confidence',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS identity_confidence LowCardinality(String) DEFAULT 'anonymous' AFTER verified_wallet_address`,
+    ],
+  },
+  {
+    version: 11,
+    description: 'Add identity_violations',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS identity_violations Array(LowCardinality(String)) AFTER identity_confidence`,
+    ],
+  },
+  {
+    version: 12,
+    description: 'Add decoded payment columns',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS payment_scheme LowCardinality(Nullable(String)) AFTER identity_violations,
+        ADD COLUMN IF NOT EXISTS payment_network LowCardinality(Nullable(String)) AFTER payment_scheme,
+        ADD COLUMN IF NOT EXISTS payment_asset Nullable(String) AFTER payment_network,
+        ADD COLUMN IF NOT EXISTS payment_amount Nullable(String) AFTER payment_asset`,
+    ],
+  },
+  {
+    version: 13,
+    description: 'Add settlement columns',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS settlement_success Nullable(Bool) AFTER payment_amount,
+        ADD COLUMN IF NOT EXISTS settlement_transaction Nullable(String) AFTER settlement_success,
+        ADD COLUMN IF NOT EXISTS settlement_network LowCardinality(Nullable(String)) AFTER settlement_transaction,
+        ADD COLUMN IF NOT EXISTS settlement_error Nullable(String) AFTER settlement_network`,
+    ],
+  },
+  {
+    version: 14,
+    description: 'Add mcp_host',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS mcp_host LowCardinality(Nullable(String)) AFTER session_id`,
+    ],
+  },
+  {
+    version: 15,
+    description: 'Add attributes',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS attributes Map(String, String) AFTER sample_rate`,
+    ],
+  },
+  {
+    version: 16,
+    description: 'Create provider_calls',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS provider_calls (
+        request_id              String,
+        provider                LowCardinality(String),
+        host                    String,
+        method                  LowCardinality(String),
+        route                   String,
+        origin                  String,
+        status                  Nullable(UInt16),
+        duration                UInt32,
+        request_bytes           Nullable(UInt64),
+        response_bytes          Nullable(UInt64),
+        cost                    Nullable(Float64),
+        error                   Nullable(String),
+        created_at              DateTime64(3) DEFAULT now64(3)
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(created_at)
+      ORDER BY (provider, created_at)`,
+    ],
+  },
+  {
+    version: 17,
+    description: 'Add trace context columns',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS trace_id String DEFAULT '' AFTER id,
+        ADD COLUMN IF NOT EXISTS span_id String DEFAULT '' AFTER trace_id,
+        ADD COLUMN IF NOT EXISTS parent_span_id Nullable(String) AFTER span_id`,
+      `ALTER TABLE provider_calls
+        ADD COLUMN IF NOT EXISTS trace_id String DEFAULT '' AFTER request_id,
+        ADD COLUMN IF NOT EXISTS span_id String DEFAULT '' AFTER trace_id,
+        ADD COLUMN IF NOT EXISTS parent_span_id String DEFAULT '' AFTER span_id`,
+    ],
+  },
+  {
+    version: 18,
+    description: 'Add body_sampled_out',
+    statements: [
+      `ALTER TABLE mcp_resource_invocations
+        ADD COLUMN IF NOT EXISTS body_sampled_out Bool DEFAULT false AFTER sample_rate`,
+    ],
+  },
+];
+
+/**
+ * Columns (name → ClickHouse type) each table has once every migration is
+ * applied. The drift check compares system.columns against this.
+ */
+export const EXPECTED_COLUMNS: Record<TelemetryTable, Record<string, string>> = {
+  mcp_resource_invocations: {
+    id: 'String',
+    trace_id: 'String',
+    span_id: 'String',
+    parent_span_id: 'Nullable(String)',
+    x_wallet_address: 'Nullable(String)',
+    x_client_id: 'Nullable(String)',
+    client_type: 'LowCardinality(String)',
+    session_id: 'Nullable(String)',
+    mcp_host: 'LowCardinality(Nullable(String))',
+    verified_wallet_address: 'Nullable(String)',
+    identity_confidence: 'LowCardinality(String)',
+    identity_violations: 'Array(LowCardinality(String))',
+    payment_scheme: 'LowCardinality(Nullable(String))',
+    payment_network: 'LowCardinality(Nullable(String))',
+    payment_asset: 'Nullable(String)',
+    payment_amount: 'Nullable(String)',
+    settlement_success: 'Nullable(Bool)',
+    settlement_transaction: 'Nullable(String)',
+    settlement_network: 'LowCardinality(Nullable(String))',
+    settlement_error: 'Nullable(String)',
+    method: 'String',
+    route: 'String',
+    origin: 'String',
+    referer: 'Nullable(String)',
+    request_content_type: 'Nullable(String)',
+    request_headers: 'Nullable(String)',
+    request_body: 'Nullable(String)',
+    request_body_size: 'Nullable(UInt64)',
+    request_body_truncated: 'Bool',
+    request_body_sha256: 'Nullable(String)',
+    status_code: 'UInt16',
+    status_text: 'String',
+    duration: 'UInt32',
+    time_to_first_byte: 'Nullable(UInt32)',
+    stream_duration: 'Nullable(UInt32)',
+    stream_status: 'LowCardinality(Nullable(String))',
+    response_content_type: 'Nullable(String)',
+    response_headers: 'Nullable(String)',
+    response_body: 'Nullable(String)',
+    response_body_size: 'Nullable(UInt64)',
+    response_body_truncated: 'Bool',
+    response_body_sha256: 'Nullable(String)',
+    sample_rate: 'Float32',
+    body_sampled_out: 'Bool',
+    attributes: 'Map(String, String)',
+    created_at: 'DateTime64(3)',
+  },
+  x402_payments: {
+    request_id: 'String',
+    protocol: 'LowCardinality(String)',
+    route: 'String',
+    origin: 'String',
+    payer: 'String',
+    amount: 'Nullable(String)',
+    network: 'LowCardinality(String)',
+    transaction: 'Nullable(String)',
+    settled: 'Bool',
+    created_at: 'DateTime64(3)',
+  },
+  provider_quota_events: {
+    request_id: 'String',
+    provider: 'LowCardinality(String)',
+    route: 'String',
+    origin: 'String',
+    level: 'LowCardinality(String)',
+    remaining: 'Nullable(Int64)',
+    limit: 'Nullable(Int64)',
+    overage: 'String',
+    message: 'String',
+    created_at: 'DateTime64(3)',
+  },
+  router_events: {
+    request_id: 'String',
+    kind: 'LowCardinality(String)',
+    level: 'LowCardinality(String)',
+    message: 'String',
+    route: 'String',
+    origin: 'String',
+    meta: 'Nullable(String)',
+    status: 'Nullable(UInt16)',
+    settled: 'Nullable(Bool)',
+    created_at: 'DateTime64(3)',
+  },
+  provider_calls: {
+    request_id: 'String',
+    trace_id: 'String',
+    span_id: 'String',
+    parent_span_id: 'String',
+    provider: 'LowCardinality(String)',
+    host: 'String',
+    method: 'LowCardinality(String)',
+    route: 'String',
+    origin: 'String',
+    status: 'Nullable(UInt16)',
+    duration: 'UInt32',
+    request_bytes: 'Nullable(UInt64)',
+    response_bytes: 'Nullable(UInt64)',
+    cost: 'Nullable(Float64)',
+    error: 'Nullable(String)',
+    created_at: 'DateTime64(3)',
+  },
+};
+
+/** Latest schema version this package writes against. */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Create the telemetry tables and apply any pending migrations.
+ *
+ * Unlike the insert path this is awaited and rejects on failure — run it from
+ * a deploy step, the CLI, or `ensureSchema: true` (which logs instead).
+ *
+ * ```typescript
+ * import { ensureSchema } from '@agentcash/telemetry';
+ *
+ * const { from, to } = await ensureSchema({ url: process.env.TELEM_CLICKHOUSE_URL! });
+ * ```
+ */
+export async function ensureSchema(config: ClickhouseConfig): Promise<SchemaResult> {
+  const client = createClickhouseClient(config);
+  try {
+    return await migrate(client);
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Fire-and-forget ensureSchema for init paths. Logs the result, never throws.
+ */
+export function ensureSchemaInBackground(config: ClickhouseConfig): void {
+  ensureSchema(config)
+    .then(({ from, to, applied }) => {
+      if (applied.length > 0) {
+        console.log(`[telemetry] Schema migrated from v${from} to v${to}`);
+      }
+    })
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[telemetry] Schema migration failed:', message);
+    });
+}
+
+/**
+ * Compare the live tables (system.columns) to EXPECTED_COLUMNS and report
+ * missing, extra and mistyped columns. Rejects if the query fails.
+ */
+export async function checkSchema(config: ClickhouseConfig): Promise<SchemaCheck> {
+  const client = createClickhouseClient(config);
+  try {
+    return await diffColumns(client);
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Render a SchemaCheck as one multi-line diagnostic.
+ */
+export function formatSchemaCheck(check: SchemaCheck): string {
+  if (check.ok) return 'Schema matches';
+  const lines = check.drift.map(({ table, tableMissing, missing, extra, mistyped }) => {
+    if (tableMissing) return `  ${table}: table missing`;
+    const problems = [
+      ...missing.map((c) => `missing ${c.name} ${c.expected}`),
+      ...mistyped.map((c) => `${c.name} is ${c.actual}, expected ${c.expected}`),
+      ...extra.map((c) => `extra ${c.name} ${c.actual}`),
+    ];
+    return `  ${table}: ${problems.join('; ')}`;
+  });
+  return [
+    'Schema drift detected:',
+    ...lines,
+    'Run ensureSchema() to apply pending migrations.',
+  ].join('\n');
+}
+
+/**
+ * Fire-and-forget schema check for `verify: true`. Logs one diagnostic, never throws.
+ */
+export function checkSchemaInBackground(config: ClickhouseConfig): void {
+  checkSchema(config)
+    .then((check) => {
+      if (check.ok) {
+        console.log('[telemetry] ClickHouse schema matches');
+      } else {
+        console.error(`[telemetry] ${formatSchemaCheck(check)}`);
+      }
+    })
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[telemetry] Schema check failed:', message);
+    });
+}
+
+async function diffColumns(client: ClickhouseClient): Promise<SchemaCheck> {
+  const tables = Object.keys(EXPECTED_COLUMNS) as TelemetryTable[];
+  const result = await client.query({
+    query: `SELECT table, name, type FROM system.columns
+      WHERE database = currentDatabase() AND table IN ({tables:Array(String)})`,
+    query_params: { tables },
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<{ table: string; name: string; type: string }>();
+
+  const drift: TableDrift[] = [];
+  for (const table of tables) {
+    const expected = EXPECTED_COLUMNS[table];
+    const actual = new Map(rows.filter((r) => r.table === table).map((r) => [r.name, r.type]));
+
+    if (actual.size === 0) {
+      drift.push({ table, tableMissing: true, missing: [], extra: [], mistyped: [] });
+      continue;
+    }
+
+    const missing: ColumnDrift[] = [];
+    const mistyped: ColumnDrift[] = [];
+    for (const [name, type] of Object.entries(expected)) {
+      const actualType = actual.get(name);
+      if (actualType === undefined) {
+        missing.push({ name, expected: type, actual: null });
+      } else if (actualType !== type) {
+        mistyped.push({ name, expected: type, actual: actualType });
+      }
+    }
+    const extra = [...actual]
+      .filter(([name]) => !(name in expected))
+      .map(([name, type]) => ({ name, expected: null, actual: type }));
+
+    if (missing.length > 0 || mistyped.length > 0 || extra.length > 0) {
+      drift.push({ table, tableMissing: false, missing, extra, mistyped });
+    }
+  }
+
+  return { ok: drift.length === 0, drift };
+}
+
+async function migrate(client: ClickhouseClient): Promise<SchemaResult> {
+  await client.command({
+    query: `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version     UInt32,
+      description String,
+      applied_at  DateTime64(3) DEFAULT now64(3)
+    ) ENGINE = MergeTree()
+    ORDER BY version`,
+  });
+
+  const from = await currentVersion(client);
+  const applied: number[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from) continue;
+    for (const statement of migration.statements) {
+      await client.command({ query: statement });
+    }
+    await client.insert({
+      table: MIGRATIONS_TABLE,
+      values: [{ version: migration.version, description: migration.description }],
+      format: 'JSONEachRow',
+    });
+    applied.push(migration.version);
+  }
+
+  return { from, to: applied.length > 0 ? applied[applied.length - 1] : from, applied };
+}
+
+async function currentVersion(client: ClickhouseClient): Promise<number> {
+  const result = await client.query({
+    query: `SELECT max(version) AS version FROM ${MIGRATIONS_TABLE}`,
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<{ version: number | string }>();
+  return Number(rows[0]?.version ?? 0);
+}
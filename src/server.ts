@@ -0,0 +1,24 @@
+// Framework-agnostic entrypoint — no Next.js required.
+//   Fetch API runtimes (Hono, Workers, Bun, Deno): withFetchTelemetry
+//   Express / Connect / node:http: createTelemetryMiddleware
+//   MCP servers: createMcpTelemetry
+export { withFetchTelemetry } from './fetch';
+export { createTelemetryMiddleware, getTelemetryContext } from './node';
+export { createMcpTelemetry } from './mcp';
+export { initTelemetry, flushTelemetry } from './init';
+export { createTelemetryInstance } from './instance';
+
+// Sinks
+export { createClickhouseSink } from './clickhouse';
+export { createConsoleSink, createMemorySink, createFanOutSink } from './sinks';
+export { createBatchingSink } from './batch';
+export { createSpoolingSink } from './spool';
+export { createOtlpSink } from './otlp';
+
+// Types
+export type { FetchTelemetryOptions } from './fetch';
+export type { TelemetryMiddlewareOptions } from './node';
+export type { McpTelemetry, McpTelemetryOptions, McpRequest } from './mcp';
+export type { TelemetryInstance } from './instance';
+export type { TelemetryConfig, TelemetryContext, TelemetrySink, ProviderFetchInit } from './types';
+export type { MemorySink } from './sinks';
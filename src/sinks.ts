@@ -0,0 +1,172 @@
+/**
+ * Telemetry sinks that don't need a ClickHouse server, plus the
+ * fire-and-forget helpers every sink write goes through.
+ * The ClickHouse sink lives in clickhouse.ts next to the client.
+ */
+
+import type { TelemetrySink, TelemetryTable, TelemetryTables } from './types';
+
+/**
+ * Writes started by writeToSink that haven't settled yet, per sink — so
+ * flushing one runtime never waits on another's writes.
+ */
+const pendingWrites = new WeakMap<TelemetrySink, Set<Promise<void>>>();
+
+/**
+ * Fire-and-forget write to a sink.
+ * Wrapped in try/catch — never throws, never blocks.
+ */
+export function writeToSink<T extends TelemetryTable>(
+  sink: TelemetrySink | null,
+  table: T,
+  rows: TelemetryTables[T][],
+): void {
+  try {
+    if (!sink) {
+      console.error('[telemetry] Telemetry not initialized. Call initTelemetry() first.');
+      return;
+    }
+
+    // Fire and forget — do NOT await. Tracked so flushSink() can drain it.
+    let pending = pendingWrites.get(sink);
+    if (!pending) {
+      pending = new Set();
+      pendingWrites.set(sink, pending);
+    }
+    const write = sink
+      .write(table, rows)
+      .catch((error: unknown) => {
+        try {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[telemetry] Write to ${table} failed:`, message);
+        } catch {
+          // Absolutely nothing escapes
+        }
+      })
+      .finally(() => pending.delete(write));
+    pending.add(write);
+  } catch (error: unknown) {
+    try {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[telemetry] Write to ${table} threw synchronously:`, message);
+    } catch {
+      // Absolutely nothing escapes
+    }
+  }
+}
+
+/**
+ * Wait for the sink's pending writes, then flush its own buffers.
+ * Never rejects — safe to await from after() or a shutdown hook.
+ */
+export async function flushSink(sink: TelemetrySink | null): Promise<void> {
+  try {
+    await Promise.all(sink ? (pendingWrites.get(sink) ?? []) : []);
+    await sink?.flush?.();
+  } catch (error: unknown) {
+    try {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[telemetry] Flush failed:', message);
+    } catch {
+      // Absolutely nothing escapes
+    }
+  }
+}
+
+/**
+ * Ping a sink to verify it is reachable. Fire-and-forget, logs result.
+ * Sinks without a ping() are assumed healthy.
+ */
+export function verifySink(sink: TelemetrySink, label = 'Sink'): void {
+  if (!sink.ping) {
+    console.log(`[telemetry] ${label} configured`);
+    return;
+  }
+  sink
+    .ping()
+    .then((ok) => {
+      if (ok) {
+        console.log(`[telemetry] ${label} connected`);
+      } else {
+        console.error(`[telemetry] ${label} ping failed`);
+      }
+    })
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[telemetry] ${label} ping failed:`, message);
+    });
+}
+
+/**
+ * Sink that prints each row as one JSON line. Useful for local dev.
+ */
+export function createConsoleSink(): TelemetrySink {
+  return {
+    async write(table, rows) {
+      for (const row of rows) {
+        console.log(`[telemetry] ${table}`, JSON.stringify(row));
+      }
+    },
+  };
+}
+
+export interface MemorySink extends TelemetrySink {
+  /** Rows written so far, keyed by table. */
+  readonly rows: { [T in TelemetryTable]: TelemetryTables[T][] };
+  /** Drop all stored rows. */
+  clear(): void;
+}
+
+/**
+ * Sink that keeps rows in memory. Useful for tests and CI assertions.
+ */
+export function createMemorySink(): MemorySink {
+  const rows: MemorySink['rows'] = {
+    mcp_resource_invocations: [],
+    x402_payments: [],
+    provider_quota_events: [],
+    router_events: [],
+    provider_calls: [],
+  };
+  return {
+    rows,
+    async write(table, newRows) {
+      rows[table].push(...newRows);
+    },
+    clear() {
+      for (const table of Object.keys(rows) as TelemetryTable[]) {
+        rows[table].length = 0;
+      }
+    },
+  };
+}
+
+/**
+ * Sink that forwards every write to all of the given sinks.
+ * A failing sink doesn't stop the others; the write rejects once all have
+ * settled if any of them failed.
+ */
+export function createFanOutSink(sinks: TelemetrySink[]): TelemetrySink {
+  return {
+    async write(table, rows) {
+      const results = await Promise.allSettled(sinks.map((sink) => sink.write(table, rows)));
+      const failures = results.flatMap((result) =>
+        result.status === 'rejected'
+          ? [result.reason instanceof Error ? result.reason.message : String(result.reason)]
+          : [],
+      );
+      if (failures.length > 0) {
+        throw new Error(
+          `${failures.length} of ${sinks.length} sinks failed: ${failures.join('; ')}`,
+        );
+      }
+    },
+    async ping() {
+      const results = await Promise.all(sinks.map((sink) => (sink.ping ? sink.ping() : true)));
+      return results.every(Boolean);
+    },
+    async flush() {
+      await Promise.all(sinks.map((sink) => sink.flush?.()));
+    },
+  };
+}
@@ -5,21 +5,16 @@
  * Delegates SIWX verification to @x402/extensions/sign-in-with-x.
  * This package does NOT implement SIWX itself.
  *
- * Import from '@agentcash/telemetry/siwx'.
- * Requires peer dep: @x402/extensions
+ * Import from '@agentcash/telemetry/siwx', or use createTelemetry().withSiwxTelemetry.
+ * Requires peer dep: @x402/extensions — loaded on the first request, so the
+ * core entrypoint works without it.
  */
 
 import { type NextRequest, NextResponse } from 'next/server';
-import { randomBytes } from 'crypto';
-import {
-  parseSIWxHeader,
-  validateSIWxMessage,
-  verifySIWxSignature,
-  buildSIWxSchema,
-} from '@x402/extensions/sign-in-with-x';
 import { encodePaymentRequiredHeader } from '@x402/core/http';
 import type { TelemetryContext } from './types';
-import { withTelemetry } from './telemetry';
+import { withTelemetry, type WithTelemetryOptions } from './telemetry';
+import { normalizeAddress } from './payment-header';
 
 export type { SiwxTelemetryContext };
 
@@ -28,7 +23,10 @@ interface SiwxTelemetryContext extends Omit<TelemetryContext, 'verifiedWallet'>
   verifiedWallet: string;
 }
 
-type SiwxHandler = (request: NextRequest, ctx: SiwxTelemetryContext) => Promise<NextResponse>;
+export type SiwxHandler = (
+  request: NextRequest,
+  ctx: SiwxTelemetryContext,
+) => Promise<NextResponse>;
 
 /**
  * Wrap a Next.js route handler with SIWX verification + telemetry.
@@ -36,18 +34,20 @@ type SiwxHandler = (request: NextRequest, ctx: SiwxTelemetryContext) => Promise<
  * Verifies the SIGN-IN-WITH-X header and sets the verified wallet automatically.
  * If no SIWX header is present, returns a 402 with SIWX challenge.
  * If verification fails, returns a 402 (matching x402 protocol convention).
+ * Pass `options.telemetry` to record through a createTelemetry() instance.
  */
-export function withSiwxTelemetry(handler: SiwxHandler) {
+export function withSiwxTelemetry(handler: SiwxHandler, options?: WithTelemetryOptions) {
   return withTelemetry(async (request: NextRequest, ctx: TelemetryContext) => {
+    const siwx = await import('@x402/extensions/sign-in-with-x');
     const header = request.headers.get('SIGN-IN-WITH-X') ?? request.headers.get('sign-in-with-x');
 
     if (!header) {
-      return buildSiwxChallengeResponse(request);
+      return buildSiwxChallengeResponse(request, siwx.buildSIWxSchema());
     }
 
-    const payload = parseSIWxHeader(header);
+    const payload = siwx.parseSIWxHeader(header);
 
-    const validation = await validateSIWxMessage(payload, request.url);
+    const validation = await siwx.validateSIWxMessage(payload, request.url);
     if (!validation.valid) {
       return NextResponse.json(
         { success: false, error: `SIWX validation failed: ${validation.error}` },
@@ -55,7 +55,7 @@ export function withSiwxTelemetry(handler: SiwxHandler) {
       );
     }
 
-    const verification = await verifySIWxSignature(payload);
+    const verification = await siwx.verifySIWxSignature(payload);
     if (!verification.valid || !verification.address) {
       return NextResponse.json(
         { success: false, error: 'SIWX signature verification failed' },
@@ -63,22 +63,24 @@ export function withSiwxTelemetry(handler: SiwxHandler) {
       );
     }
 
-    const walletAddress = verification.address.toLowerCase();
+    const walletAddress = normalizeAddress(verification.address);
     ctx.setVerifiedWallet(walletAddress);
 
     return handler(request, {
       ...ctx,
       verifiedWallet: walletAddress,
     } as SiwxTelemetryContext);
-  });
+  }, options);
 }
 
 /**
  * Build a 402 response with SIWX challenge.
  */
-function buildSiwxChallengeResponse(request: NextRequest): NextResponse {
+function buildSiwxChallengeResponse(request: NextRequest, schema: unknown): NextResponse {
   const url = new URL(request.url);
-  const nonce = randomBytes(16).toString('hex');
+  const nonce = Array.from(globalThis.crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
   const issuedAt = new Date().toISOString();
   const expirationTime = new Date(Date.now() + 300_000).toISOString();
 
@@ -114,7 +116,7 @@ function buildSiwxChallengeResponse(request: NextRequest): NextResponse {
           resources: [request.url],
         },
         supportedChains: [{ chainId: 'eip155:8453', type: 'eip191' }],
-        schema: buildSIWxSchema(),
+        schema,
       },
     },
   };
@@ -0,0 +1,268 @@
+/**
+ * Durable on-disk spool for failed telemetry writes.
+ *
+ * Rows the wrapped sink fails to write are appended as NDJSON to
+ * `<dir>/<table>.ndjson` instead of being lost. The spool is replayed on
+ * startup and on later writes, backing off exponentially while the sink
+ * keeps failing. Total spool size is capped; once full, new failed rows are
+ * dropped (and logged) rather than filling the disk.
+ */
+
+import { randomUUID } from 'crypto';
+import { once } from 'events';
+import { createReadStream, createWriteStream } from 'fs';
+import { appendFile, mkdir, readdir, rename, stat, unlink } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import type { SpoolConfig, TelemetrySink, TelemetryTable, TelemetryTables } from './types';
+
+const DEFAULT_MAX_BYTES = 50_000_000;
+const DEFAULT_MIN_BACKOFF_MS = 5_000;
+const DEFAULT_MAX_BACKOFF_MS = 300_000;
+/** Rows per write when replaying, so one huge spool file isn't one huge insert. */
+const REPLAY_CHUNK_ROWS = 1_000;
+
+const LIVE_SUFFIX = '.ndjson';
+const REPLAY_SUFFIX = '.replay.ndjson';
+const CORRUPT_SUFFIX = '.corrupt';
+
+export interface SpoolReplayResult {
+  /** Rows written to the sink. */
+  replayed: number;
+  /** Spool files that failed and were kept for the next attempt. */
+  failedFiles: number;
+}
+
+export interface SpoolingSink extends TelemetrySink {
+  flush(): Promise<void>;
+}
+
+/**
+ * Wrap a sink so failed writes are spooled to disk and replayed later.
+ *
+ * write() resolves once the rows are either written or spooled — it only
+ * rejects if spooling itself fails.
+ */
+export function createSpoolingSink(inner: TelemetrySink, config: SpoolConfig): SpoolingSink {
+  const maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+  const minBackoffMs = config.minBackoffMs ?? DEFAULT_MIN_BACKOFF_MS;
+  const maxBackoffMs = config.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+
+  let backoffMs = 0;
+  let nextReplayAt = 0;
+  let replaying: Promise<void> | null = null;
+  // Assume a previous process may have left rows behind until a replay says otherwise
+  let hasSpooledRows = true;
+  // Bumped on every append, so a replay only clears hasSpooledRows if nothing raced it
+  let appends = 0;
+
+  function deferReplay(): void {
+    backoffMs = backoffMs === 0 ? minBackoffMs : Math.min(backoffMs * 2, maxBackoffMs);
+    nextReplayAt = Date.now() + backoffMs;
+  }
+
+  function maybeReplay(): void {
+    if (!hasSpooledRows || replaying || Date.now() < nextReplayAt) return;
+    const appendsBefore = appends;
+    replaying = replaySpool(config.dir, inner)
+      .then((result) => {
+        if (result.failedFiles > 0) {
+          deferReplay();
+        } else {
+          backoffMs = 0;
+          hasSpooledRows = appends !== appendsBefore;
+        }
+        if (result.replayed > 0) {
+          console.log(`[telemetry] Replayed ${result.replayed} spooled rows`);
+        }
+      })
+      .catch((error: unknown) => {
+        deferReplay();
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[telemetry] Spool replay failed:', message);
+      })
+      .finally(() => {
+        replaying = null;
+      });
+  }
+
+  async function spool<T extends TelemetryTable>(
+    table: T,
+    rows: TelemetryTables[T][],
+  ): Promise<void> {
+    const data = rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+    await mkdir(config.dir, { recursive: true });
+    const used = await spoolSize(config.dir);
+    if (used + Buffer.byteLength(data) > maxBytes) {
+      console.error(
+        `[telemetry] Spool full (${used} of ${maxBytes} bytes), dropped ${rows.length} rows for ${table}`,
+      );
+      return;
+    }
+    await appendFile(join(config.dir, table + LIVE_SUFFIX), data);
+    hasSpooledRows = true;
+    appends++;
+  }
+
+  // Replay anything left over from a previous process
+  maybeReplay();
+
+  return {
+    async write<T extends TelemetryTable>(table: T, rows: TelemetryTables[T][]): Promise<void> {
+      try {
+        await inner.write(table, rows);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(
+          `[telemetry] Write to ${table} failed, spooling ${rows.length} rows:`,
+          message,
+        );
+        deferReplay();
+        await spool(table, rows);
+        return;
+      }
+      // The sink is healthy again — don't wait out the backoff
+      backoffMs = 0;
+      nextReplayAt = 0;
+      maybeReplay();
+    },
+
+    ping: inner.ping?.bind(inner),
+
+    async flush(): Promise<void> {
+      await inner.flush?.();
+      await replaying;
+    },
+  };
+}
+
+/**
+ * Re-send every spooled row in `dir` to `sink`, oldest file first.
+ * Files are streamed, not read whole, and deleted once written; a file
+ * whose write fails is kept for the next attempt. Used by the spooling
+ * sink and the CLI's `replay` command.
+ */
+export async function replaySpool(dir: string, sink: TelemetrySink): Promise<SpoolReplayResult> {
+  const result: SpoolReplayResult = { replayed: 0, failedFiles: 0 };
+
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return result; // No spool yet
+  }
+
+  // Move live files aside first so rows spooled during the replay land in a fresh file
+  for (const name of names) {
+    if (name.endsWith(LIVE_SUFFIX) && !name.endsWith(REPLAY_SUFFIX)) {
+      const table = name.slice(0, -LIVE_SUFFIX.length);
+      const batchId = `${Date.now()}-${randomUUID().slice(0, 8)}`;
+      await rename(join(dir, name), join(dir, `${table}.${batchId}${REPLAY_SUFFIX}`));
+    }
+  }
+
+  const replayFiles = (await readdir(dir)).filter((name) => name.endsWith(REPLAY_SUFFIX)).sort();
+  for (const name of replayFiles) {
+    try {
+      const { written, failed } = await replayFile(dir, name, sink);
+      result.replayed += written;
+      if (failed) result.failedFiles++;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[telemetry] Could not replay spool file ${name}:`, message);
+      result.failedFiles++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stream one replay file to the sink in chunks. Lines that don't parse (a
+ * crash mid-append) are moved to a `.corrupt` file next to it rather than
+ * blocking the rest. The file is deleted once every row is written; if a
+ * write fails, it is rewritten with only the rows that didn't make it.
+ */
+async function replayFile(
+  dir: string,
+  name: string,
+  sink: TelemetrySink,
+): Promise<{ written: number; failed: boolean }> {
+  const table = name.split('.')[0] as TelemetryTable;
+  const path = join(dir, name);
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+  // Iterated by hand: a for-await loop closes the stream when a write throws
+  const iterator = lines[Symbol.asyncIterator]();
+  const corrupt: string[] = [];
+  let chunk: string[] = [];
+  let rows: TelemetryTables[typeof table][] = [];
+  let written = 0;
+
+  try {
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      const line = next.value;
+      if (line.trim() === '') continue;
+      try {
+        rows.push(JSON.parse(line) as TelemetryTables[typeof table]);
+        chunk.push(line);
+      } catch {
+        corrupt.push(line);
+        continue;
+      }
+      if (chunk.length >= REPLAY_CHUNK_ROWS) {
+        await sink.write(table, rows);
+        written += chunk.length;
+        chunk = [];
+        rows = [];
+      }
+    }
+    if (chunk.length > 0) {
+      await sink.write(table, rows);
+      written += chunk.length;
+    }
+  } catch (error: unknown) {
+    // Keep only the rows that didn't make it, so the next attempt doesn't duplicate
+    const remaining = createWriteStream(`${path}.tmp`);
+    const keep = async (line: string) => {
+      if (!remaining.write(line + '\n')) await once(remaining, 'drain');
+    };
+    for (const line of chunk) await keep(line);
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      if (next.value.trim() !== '') await keep(next.value);
+    }
+    await new Promise<void>((resolve, reject) => {
+      remaining.on('error', reject);
+      remaining.end(resolve);
+    });
+    await rename(`${path}.tmp`, path);
+    await quarantine(dir, table, corrupt);
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[telemetry] Replay of ${name} failed after ${written} rows:`, message);
+    return { written, failed: true };
+  } finally {
+    lines.close();
+  }
+
+  await quarantine(dir, table, corrupt);
+  await unlink(path);
+  return { written, failed: false };
+}
+
+/** Append unparseable spool lines to `<table>.corrupt`, outside the spool size and replay. */
+async function quarantine(dir: string, table: string, lines: string[]): Promise<void> {
+  if (lines.length === 0) return;
+  await appendFile(join(dir, table + CORRUPT_SUFFIX), lines.join('\n') + '\n');
+  console.error(
+    `[telemetry] Skipped ${lines.length} corrupt spooled rows for ${table}, kept in ${table}${CORRUPT_SUFFIX}`,
+  );
+}
+
+async function spoolSize(dir: string): Promise<number> {
+  let total = 0;
+  for (const name of await readdir(dir)) {
+    if (name.endsWith(LIVE_SUFFIX)) {
+      total += (await stat(join(dir, name))).size;
+    }
+  }
+  return total;
+}
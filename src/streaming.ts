@@ -0,0 +1,111 @@
+/**
+ * Streaming response observation for withTelemetry.
+ *
+ * Streaming bodies (SSE, NDJSON, chunked, or anything without a
+ * Content-Length) are passed through to the client chunk by chunk instead of
+ * being read up front, so the client gets the first
+ * byte as soon as the handler produces it. Timing and a bounded copy of the
+ * body are collected on the way through.
+ */
+
+import { createBodyCollector } from './body-capture';
+import type { CapturedBody } from './body-capture';
+
+/** How a streamed response body ended. */
+export type StreamStatus = 'complete' | 'aborted' | 'error';
+
+export interface StreamResult {
+  status: StreamStatus;
+  body: CapturedBody | null;
+  /** Epoch ms of the first chunk, or null if none was sent. */
+  firstByteAt: number | null;
+  /** Epoch ms the stream completed, errored or was cancelled. */
+  endedAt: number;
+}
+
+const STREAMING_TYPES = [/^text\/event-stream\b/, /^application\/(?:x-)?ndjson\b/];
+
+/** Whether a content type is a streaming format (event stream or NDJSON). */
+export function isStreamingContentType(contentType: string | null): boolean {
+  const normalized = contentType?.toLowerCase() ?? '';
+  return STREAMING_TYPES.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Whether a response body should be observed as a stream rather than read
+ * up front: event streams, NDJSON, or an explicit chunked transfer encoding.
+ */
+export function isStreamingResponse(response: Response): boolean {
+  if (!response.body) return false;
+  if (isStreamingContentType(response.headers.get('content-type'))) return true;
+  return response.headers.get('transfer-encoding')?.toLowerCase() === 'chunked';
+}
+
+/**
+ * Whether a response body has no Content-Length. Such a body may be produced
+ * over time, so it is observed as it is sent rather than read up front —
+ * reading it would hold the response back until the handler finished writing.
+ */
+export function isUnsizedResponse(response: Response): boolean {
+  return response.body !== null && response.headers.get('content-length') === null;
+}
+
+/**
+ * Pass a body through chunk by chunk. `done` resolves once when the stream
+ * completes, errors, or the client cancels it — never rejects.
+ */
+export function observeStream(
+  body: ReadableStream<Uint8Array>,
+  contentType: string | null,
+  maxBytes: number,
+): { stream: ReadableStream<Uint8Array>; done: Promise<StreamResult> } {
+  const collector = createBodyCollector(contentType, maxBytes);
+  const reader = body.getReader();
+  let firstByteAt: number | null = null;
+  let settled = false;
+  let resolveDone: (result: StreamResult) => void = () => {};
+  const done = new Promise<StreamResult>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const end = (status: StreamStatus) => {
+    if (settled) return;
+    settled = true;
+    let captured: CapturedBody | null = null;
+    try {
+      captured = collector.finish();
+    } catch {
+      // Capture failed — record the row without a body
+    }
+    resolveDone({ status, body: captured, firstByteAt, endedAt: Date.now() });
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done: finished, value } = await reader.read();
+        if (finished) {
+          controller.close();
+          end('complete');
+          return;
+        }
+        firstByteAt ??= Date.now();
+        controller.enqueue(value);
+        try {
+          collector.add(value);
+        } catch {
+          // Capture failed — the client still gets every chunk
+        }
+      } catch (error: unknown) {
+        controller.error(error);
+        end('error');
+      }
+    },
+    async cancel(reason) {
+      end('aborted');
+      await reader.cancel(reason);
+    },
+  });
+
+  return { stream, done };
+}
@@ -1,26 +1,52 @@
 /**
- * Shared telemetry primitives used by withTelemetry and the route builder.
+ * Shared telemetry primitives used by the wrappers, the route builder and the
+ * Node middleware. Free of runtime Next.js imports.
  * Extracts request metadata, builds telemetry context, and records invocations.
+ *
+ * Each takes the runtime to use last, defaulting to the one initTelemetry() configures.
  */
 
-import { type NextRequest } from 'next/server';
+import type { NextRequest } from 'next/server';
 import { randomUUID } from 'crypto';
 import type { TelemetryContext, McpResourceInvocation, RequestMeta } from './types';
-import { insertInvocation } from './clickhouse';
+import { writeToSink } from './sinks';
 import { extractVerifiedWallet } from './extract-wallet';
-import { getOrigin } from './init';
+import {
+  decodePaymentHeader,
+  decodePaymentResponseHeader,
+  normalizeAddress,
+  readPaymentHeader,
+  readPaymentResponseHeader,
+  type DecodedSettlement,
+} from './payment-header';
+import { getDefaultRuntime, type TelemetryRuntime } from './init';
+import { redactInvocation } from './redact';
+import { sampleInvocation } from './sampling';
+import { identityConfidence, reportIdentityMismatch, validateIdentityHeaders } from './identity';
+import { classifyClient, UNKNOWN_CLIENT_TYPE } from './client-registry';
+import { captureText, type CapturedBody } from './body-capture';
+import type { StreamStatus } from './streaming';
+import { createAttributeSetters } from './attributes';
+import { createProviderFetch, finishProviderCalls } from './provider-calls';
+import { resolveTraceContext } from './trace-context';
 
 /**
  * Extract identity headers, route info, and verified wallet from a request.
+ * Uses `nextUrl` for a NextRequest (basePath-aware), else the request URL.
  * All wrapped in try/catch — returns safe defaults on failure.
  */
-export function extractRequestMeta(request: NextRequest): RequestMeta {
+export function extractRequestMeta(
+  request: Request,
+  runtime: TelemetryRuntime = getDefaultRuntime(),
+): RequestMeta {
   const meta: RequestMeta = {
     requestId: randomUUID(),
     startTime: Date.now(),
     walletAddress: null,
     clientId: null,
+    clientType: UNKNOWN_CLIENT_TYPE,
     sessionId: null,
+    mcpHost: null,
     verifiedWallet: null,
     route: '',
     method: '',
@@ -28,19 +54,38 @@ export function extractRequestMeta(request: NextRequest): RequestMeta {
     referer: null,
     requestContentType: null,
     requestHeadersJson: null,
+    identityViolations: [],
+    payment: null,
+    attributes: {},
+    pendingProviderCalls: new Set(),
+    trace: resolveTraceContext(null, null),
   };
 
   try {
-    meta.walletAddress = request.headers.get('X-Wallet-Address')?.toLowerCase() ?? null;
+    const rawWalletAddress = request.headers.get('X-Wallet-Address');
+    meta.walletAddress = rawWalletAddress?.toLowerCase() ?? null;
     meta.clientId = request.headers.get('X-Client-ID') ?? null;
     meta.sessionId = request.headers.get('X-Session-ID') ?? null;
+    meta.mcpHost = request.headers.get('X-MCP-Host') ?? null;
+    meta.trace = resolveTraceContext(
+      request.headers.get('traceparent'),
+      request.headers.get('tracestate'),
+    );
     meta.referer = request.headers.get('Referer') ?? null;
     meta.requestContentType = request.headers.get('content-type') ?? null;
-    meta.route = request.nextUrl.pathname;
+    const url = (request as Partial<NextRequest>).nextUrl ?? new URL(request.url);
+    meta.route = url.pathname;
     meta.method = request.method;
-    meta.origin = getOrigin() ?? request.nextUrl.origin;
+    meta.origin = runtime.origin ?? url.origin;
     meta.verifiedWallet = extractVerifiedWallet(request.headers);
+    const paymentHeader = readPaymentHeader(request.headers);
+    meta.payment = paymentHeader ? decodePaymentHeader(paymentHeader) : null;
     meta.requestHeadersJson = JSON.stringify(Object.fromEntries(request.headers.entries()));
+    meta.clientType = classifyClient(meta, runtime.clientRegistry);
+    meta.identityViolations = validateIdentityHeaders(
+      { walletAddress: rawWalletAddress, clientId: meta.clientId, sessionId: meta.sessionId },
+      runtime.clientRegistry,
+    );
   } catch {
     // Header extraction failed — continue with defaults
   }
@@ -50,63 +95,153 @@ export function extractRequestMeta(request: NextRequest): RequestMeta {
 
 /**
  * Build a TelemetryContext from extracted request metadata.
- * setVerifiedWallet mutates meta.verifiedWallet so recordInvocation sees the update.
+ * setVerifiedWallet and the attribute setters mutate meta so recordInvocation sees the update;
+ * ctx.fetch writes provider_calls rows to the runtime's sink.
  */
-export function buildTelemetryContext(meta: RequestMeta): TelemetryContext {
+export function buildTelemetryContext(
+  meta: RequestMeta,
+  runtime: TelemetryRuntime = getDefaultRuntime(),
+): TelemetryContext {
   const ctx: TelemetryContext = {
+    ...createAttributeSetters(meta.attributes),
+    fetch: createProviderFetch(meta, runtime),
     walletAddress: meta.walletAddress,
     clientId: meta.clientId,
     sessionId: meta.sessionId,
+    traceId: meta.trace.traceId,
+    spanId: meta.trace.spanId,
     verifiedWallet: meta.verifiedWallet,
     setVerifiedWallet: (address: string) => {
-      meta.verifiedWallet = address.toLowerCase();
+      meta.verifiedWallet = normalizeAddress(address);
       ctx.verifiedWallet = meta.verifiedWallet;
     },
   };
   return ctx;
 }
 
+export interface StreamTiming {
+  timeToFirstByte: number | null;
+  duration: number;
+  status: StreamStatus;
+}
+
 /**
- * Record an invocation to ClickHouse. Fire-and-forget, fully wrapped in try/catch.
+ * Record an invocation to the runtime's sink, sampled and redacted per its config.
+ * String bodies are redacted whole, then cut to maxBodyBytes; pass a
+ * CapturedBody from captureBody when the body was read from a stream.
+ * Fire-and-forget, fully wrapped in try/catch.
  */
 export function recordInvocation(
   meta: RequestMeta,
-  requestBody: string | null,
+  requestBody: CapturedBody | string | null,
   response: {
     status: number;
-    body: string | null;
+    body: CapturedBody | string | null;
     headers: string | null;
     contentType: string | null;
+    /** Timing for responses observed as a stream */
+    stream?: StreamTiming;
+    /** Decoded PAYMENT-RESPONSE, when the request was settled */
+    settlement?: DecodedSettlement | null;
   },
+  runtime: TelemetryRuntime = getDefaultRuntime(),
 ): void {
   try {
+    finishProviderCalls(meta.pendingProviderCalls);
+    const request = toCaptured(requestBody);
+    const responseBody = toCaptured(response.body);
     const invocation: McpResourceInvocation = {
       id: meta.requestId,
+      trace_id: meta.trace.traceId,
+      span_id: meta.trace.spanId,
+      parent_span_id: meta.trace.parentSpanId,
       x_wallet_address: meta.walletAddress,
       x_client_id: meta.clientId,
+      client_type: meta.clientType,
       session_id: meta.sessionId,
+      mcp_host: meta.mcpHost,
       verified_wallet_address: meta.verifiedWallet,
+      identity_confidence: identityConfidence(meta.walletAddress, meta.verifiedWallet),
+      identity_violations: meta.identityViolations,
+      payment_scheme: meta.payment?.scheme ?? null,
+      payment_network: meta.payment?.network ?? null,
+      payment_asset: meta.payment?.asset ?? null,
+      payment_amount: meta.payment?.amount ?? null,
+      settlement_success: response.settlement?.success ?? null,
+      settlement_transaction: response.settlement?.transaction ?? null,
+      settlement_network: response.settlement?.network ?? null,
+      settlement_error: response.settlement?.errorReason ?? null,
       method: meta.method,
       route: meta.route,
       origin: meta.origin,
       referer: meta.referer,
       request_content_type: meta.requestContentType,
       request_headers: meta.requestHeadersJson,
-      request_body: requestBody,
+      request_body: request?.text ?? null,
+      request_body_size: request?.size ?? null,
+      request_body_truncated: request?.truncated ?? false,
+      request_body_sha256: request?.sha256 ?? null,
       status_code: response.status,
       status_text: statusTextFromCode(response.status),
       duration: Date.now() - meta.startTime,
+      time_to_first_byte: response.stream?.timeToFirstByte ?? null,
+      stream_duration: response.stream?.duration ?? null,
+      stream_status: response.stream?.status ?? null,
       response_content_type: response.contentType,
       response_headers: response.headers,
-      response_body: response.body,
+      response_body: responseBody?.text ?? null,
+      response_body_size: responseBody?.size ?? null,
+      response_body_truncated: responseBody?.truncated ?? false,
+      response_body_sha256: responseBody?.sha256 ?? null,
+      sample_rate: 1,
+      body_sampled_out: false,
+      attributes: meta.attributes,
       created_at: new Date(),
     };
-    insertInvocation(invocation);
+    reportIdentityMismatch(invocation, runtime.onIdentityMismatch);
+    const sampled = sampleInvocation(invocation, runtime.sampling);
+    if (!sampled) return;
+    writeToSink(runtime.sink, 'mcp_resource_invocations', [
+      limitBodies(redactInvocation(sampled, runtime.redaction), runtime.maxBodyBytes),
+    ]);
   } catch {
     // Never affects the response
   }
 }
 
+/**
+ * Decode the settlement result withX402 set on a response, if any.
+ */
+export function extractSettlement(response: Response): DecodedSettlement | null {
+  try {
+    const header = readPaymentResponseHeader(response.headers);
+    return header ? decodePaymentResponseHeader(header) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** String bodies are kept whole here and cut by limitBodies once redacted. */
+function toCaptured(body: CapturedBody | string | null): CapturedBody | null {
+  return typeof body === 'string' ? captureText(body, Number.POSITIVE_INFINITY) : body;
+}
+
+/**
+ * Cut the bodies to maxBodyBytes. Runs after redaction, so body paths are
+ * masked in the whole JSON rather than failing to parse a cut one.
+ */
+function limitBodies(row: McpResourceInvocation, maxBytes: number): McpResourceInvocation {
+  const request = captureText(row.request_body, maxBytes);
+  const response = captureText(row.response_body, maxBytes);
+  return {
+    ...row,
+    request_body: request?.text ?? null,
+    request_body_truncated: row.request_body_truncated || (request?.truncated ?? false),
+    response_body: response?.text ?? null,
+    response_body_truncated: row.response_body_truncated || (response?.truncated ?? false),
+  };
+}
+
 function statusTextFromCode(code: number): string {
   switch (code) {
     case 200:
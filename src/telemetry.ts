@@ -7,10 +7,17 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { after } from 'next/server';
 import type { TelemetryContext } from './types';
-import { extractRequestMeta, buildTelemetryContext, recordInvocation } from './telemetry-core';
+import { getDefaultRuntime } from './init';
+import { instrumentRequest } from './instrument';
+import type { TelemetryInstance } from './instance';
 
 type TelemetryHandler = (request: NextRequest, ctx: TelemetryContext) => Promise<NextResponse>;
 
+export interface WithTelemetryOptions {
+  /** Instance from createTelemetry() to record through. Default: the initTelemetry() config. */
+  telemetry?: TelemetryInstance;
+}
+
 /**
  * Wrap a Next.js route handler with telemetry.
  * Extracts identity headers, logs the invocation to ClickHouse,
@@ -20,76 +27,29 @@ type TelemetryHandler = (request: NextRequest, ctx: TelemetryContext) => Promise
  * the response is sent. On Vercel this keeps the Lambda alive until
  * the insert completes, avoiding frozen in-flight promises.
  *
+ * Settlement results (PAYMENT-RESPONSE) are recorded when present on the
+ * response this wrapper sees — wrap withX402 inside withTelemetry to get them.
+ *
+ * Streaming responses (text/event-stream, NDJSON, chunked) are not read up
+ * front: chunks pass straight through to the client and the row is written
+ * when the stream completes or the client aborts.
+ *
+ * Rows go to the initTelemetry() config unless `options.telemetry` names a
+ * createTelemetry() instance.
+ *
  * The entire telemetry code path is wrapped in try/catch.
  * Telemetry failures never affect the response.
  */
-export function withTelemetry(handler: TelemetryHandler) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    const meta = extractRequestMeta(request);
-    const ctx = buildTelemetryContext(meta);
-
-    // Capture request body for logging (only for methods with bodies)
-    let requestBodyString: string | null = null;
-    if (meta.method === 'POST' || meta.method === 'PUT' || meta.method === 'PATCH') {
-      try {
-        const body = await request.clone().text();
-        if (body) requestBodyString = body;
-      } catch {
-        // Body read failed — that's fine
-      }
-    }
-
-    // Execute the actual handler
-    let response: NextResponse;
-    let handlerError: unknown = null;
-
-    try {
-      response = await handler(request, ctx);
-    } catch (error: unknown) {
-      handlerError = error;
-      if (error instanceof NextResponse) {
-        response = error;
-      } else {
-        const message = error instanceof Error ? error.message : 'Internal server error';
-        response = NextResponse.json({ success: false, error: message }, { status: 500 });
-      }
-    }
-
-    // 402 is the x402/MPP payment challenge — not a real invocation, skip logging
-    if (response.status !== 402) {
-      // Capture all response data before returning — response.clone() must happen
-      // before Next.js consumes the body to send it to the client.
-      const status = response.status;
-      const responseHeaders = JSON.stringify(Object.fromEntries(response.headers.entries()));
-      const contentType = response.headers.get('content-type') ?? null;
-      let responseBodyString: string | null = null;
-      try {
-        responseBodyString = await response.clone().text();
-      } catch {
-        // Response body read failed — that's fine
-      }
-
-      // Defer the ClickHouse insert until after the response is sent.
-      // On Vercel, after() keeps the Lambda alive until the insert completes.
-      after(() => {
-        try {
-          recordInvocation(meta, requestBodyString, {
-            status,
-            body: responseBodyString,
-            headers: responseHeaders,
-            contentType,
-          });
-        } catch {
-          // Telemetry never affects the response
-        }
-      });
-    }
-
-    // Re-throw the original error if it wasn't a NextResponse
-    if (handlerError && !(handlerError instanceof NextResponse)) {
-      throw handlerError;
-    }
-
-    return response;
-  };
+export function withTelemetry(handler: TelemetryHandler, options?: WithTelemetryOptions) {
+  return async (request: NextRequest): Promise<NextResponse> =>
+    instrumentRequest(request, (ctx) => handler(request, ctx), {
+      runtime: options?.telemetry?.runtime ?? getDefaultRuntime(),
+      defer: after,
+      rewrap: (stream, response) =>
+        new NextResponse(stream, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        }),
+    });
 }
@@ -0,0 +1,83 @@
+/**
+ * W3C Trace Context (https://www.w3.org/TR/trace-context/). Each invocation
+ * is a span: it joins the caller's trace from `traceparent`, or starts one,
+ * and ctx.fetch passes it on to providers.
+ */
+
+export interface TraceContext {
+  /** 32 hex chars, shared by every span in the trace */
+  traceId: string;
+  /** 16 hex chars — this invocation's span */
+  spanId: string;
+  /** The caller's span from `traceparent`, null when the trace starts here */
+  parentSpanId: string | null;
+  /** Trace flags, 2 hex chars ('01' = sampled) */
+  flags: string;
+  /** `tracestate`, passed on unchanged */
+  state: string | null;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(?:-.*)?$/;
+
+/**
+ * Parse a `traceparent` header. Returns null when it is missing or invalid —
+ * uppercase hex, version ff, all-zero ids, or extra fields on version 00.
+ */
+export function parseTraceparent(
+  header: string | null,
+): { traceId: string; parentSpanId: string; flags: string } | null {
+  const match = TRACEPARENT.exec(header ?? '');
+  if (!match) return null;
+  const [whole, version, traceId, parentSpanId, flags] = match;
+  if (version === 'ff') return null;
+  if (version === '00' && whole.length !== 55) return null;
+  if (/^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) return null;
+  return { traceId, parentSpanId, flags };
+}
+
+/**
+ * Continue the trace in `traceparent` with a new span, or start a trace.
+ * `tracestate` is only kept alongside a valid `traceparent`.
+ */
+export function resolveTraceContext(
+  traceparent: string | null,
+  tracestate: string | null,
+): TraceContext {
+  const parent = parseTraceparent(traceparent);
+  if (!parent) {
+    return {
+      traceId: newTraceId(),
+      spanId: newSpanId(),
+      parentSpanId: null,
+      flags: '01',
+      state: null,
+    };
+  }
+  return {
+    traceId: parent.traceId,
+    spanId: newSpanId(),
+    parentSpanId: parent.parentSpanId,
+    flags: parent.flags,
+    state: tracestate?.trim() || null,
+  };
+}
+
+/** The `traceparent` to send for a child span of `trace`. */
+export function formatTraceparent(trace: TraceContext, spanId: string): string {
+  return `00-${trace.traceId}-${spanId}-${trace.flags}`;
+}
+
+export function newTraceId(): string {
+  return randomHex(16);
+}
+
+export function newSpanId(): string {
+  return randomHex(8);
+}
+
+/** `bytes` random bytes from Web Crypto, as hex — available on Node and edge runtimes. */
+function randomHex(bytes: number): string {
+  return Array.from(globalThis.crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
@@ -1,13 +1,42 @@
+import type { DecodedPayment } from './payment-header';
+import type { TraceContext } from './trace-context';
+
 /**
  * ClickHouse row type for mcp_resource_invocations table.
  * This is the real contract — not the DDL.
  */
 export interface McpResourceInvocation {
   id: string;
+  /** W3C trace id — the caller's from `traceparent`, else a new trace */
+  trace_id: string;
+  /** This invocation's span id */
+  span_id: string;
+  /** The caller's span id from `traceparent` */
+  parent_span_id: string | null;
   x_wallet_address: string | null;
   x_client_id: string | null;
+  /** Label derived from the Client Registry, e.g. 'MCP' or 'Unknown' */
+  client_type: string;
   session_id: string | null;
+  /** MCP host application (`clientInfo.name` from initialize), e.g. 'claude-ai' or 'cursor' */
+  mcp_host: string | null;
+  /** Lowercased for 0x addresses; Solana base58 keeps its case, as x402_payments.payer does */
   verified_wallet_address: string | null;
+  /** 'verified-match' | 'verified-mismatch' | 'verified-only' | 'claimed-only' | 'anonymous' */
+  identity_confidence: string;
+  /** Where the identity headers break the spec's header contract, e.g. 'client-id-unregistered' */
+  identity_violations: string[];
+  /** Decoded from PAYMENT-SIGNATURE / X-PAYMENT, null for unpaid requests */
+  payment_scheme: string | null;
+  payment_network: string | null;
+  payment_asset: string | null;
+  /** Atomic units of payment_asset, as a decimal string */
+  payment_amount: string | null;
+  /** Decoded from PAYMENT-RESPONSE; null when no settlement was attempted */
+  settlement_success: boolean | null;
+  settlement_transaction: string | null;
+  settlement_network: string | null;
+  settlement_error: string | null;
 
   method: string;
   route: string;
@@ -16,31 +45,176 @@ export interface McpResourceInvocation {
   request_content_type: string | null;
   request_headers: string | null;
   request_body: string | null;
+  /** Full request body size in bytes */
+  request_body_size: number | null;
+  /** True when request_body holds less than the full body */
+  request_body_truncated: boolean;
+  /** SHA-256 of a non-text request body, stored instead of the body. Null past maxBodyBytes */
+  request_body_sha256: string | null;
 
   status_code: number;
   status_text: string;
   duration: number;
+  /** Streamed responses only: ms from request start to the first body chunk */
+  time_to_first_byte: number | null;
+  /** Streamed responses only: ms from the first body chunk to the stream ending (0 if none was sent) */
+  stream_duration: number | null;
+  /** Streamed responses only: 'complete', 'aborted' (client went away) or 'error' */
+  stream_status: string | null;
   response_content_type: string | null;
   response_headers: string | null;
   response_body: string | null;
+  response_body_size: number | null;
+  response_body_truncated: boolean;
+  response_body_sha256: string | null;
+
+  /** Rate this row was sampled at (1 = unsampled); weight counts by 1 / sample_rate */
+  sample_rate: number;
+  /** True when sampling mode 'bodies' dropped this row's bodies; they were not empty or absent */
+  body_sampled_out: boolean;
+  /** Set by handlers with ctx.setAttribute() / ctx.addTags() */
+  attributes: Record<string, string>;
+  created_at: Date;
+}
+
+/**
+ * ClickHouse row type for x402_payments table.
+ * One row per paid request, joined to mcp_resource_invocations on `request_id = id`.
+ */
+export interface X402Payment {
+  request_id: string;
+  protocol: 'x402' | 'mpp';
+  route: string;
+  origin: string;
+  /** Payer wallet (lowercased) */
+  payer: string;
+  /** Amount from payment verification, in the protocol's units. Null if only settlement was seen. */
+  amount: string | null;
+  network: string;
+  /** Settlement transaction hash. Null if the payment was verified but never settled. */
+  transaction: string | null;
+  settled: boolean;
+  created_at: Date;
+}
+
+/**
+ * ClickHouse row type for provider_quota_events table.
+ * One row per upstream provider quota report from the router's onProviderQuota.
+ */
+export interface ProviderQuotaRecord {
+  request_id: string;
+  provider: string;
+  route: string;
+  origin: string;
+  /** Router-assigned severity, e.g. 'info' | 'warn' | 'critical' */
+  level: string;
+  remaining: number | null;
+  limit: number | null;
+  overage: string;
+  message: string;
+  created_at: Date;
+}
+
+/**
+ * ClickHouse row type for provider_calls table.
+ * One row per outbound call made through ctx.fetch, joined to
+ * mcp_resource_invocations on `request_id = id`.
+ */
+export interface ProviderCallRecord {
+  request_id: string;
+  /** The invocation's trace id */
+  trace_id: string;
+  /** Span id sent to the provider in `traceparent` — the parent of its span */
+  span_id: string;
+  /** The invocation's span id */
+  parent_span_id: string;
+  /** `provider` passed to ctx.fetch, else the host */
+  provider: string;
+  host: string;
+  method: string;
+  /** Route of the invocation that made the call */
+  route: string;
+  origin: string;
+  /** Upstream HTTP status. Null when the request failed before a response. */
+  status: number | null;
+  /** Ms from the call to the end of the response body */
+  duration: number;
+  request_bytes: number | null;
+  response_bytes: number | null;
+  /** Cost of the call in USD, when the caller reported one */
+  cost: number | null;
+  /** Network error, or why the body wasn't read to the end */
+  error: string | null;
+  created_at: Date;
+}
 
+/**
+ * ClickHouse row type for router_events table.
+ * Alerts and errors from the router's onAlert / onError hooks.
+ */
+export interface RouterEventRecord {
+  request_id: string;
+  kind: 'alert' | 'error';
+  /** Alert level, or 'error' for errors */
+  level: string;
+  message: string;
+  route: string;
+  origin: string;
+  /** Alert meta as JSON. Null for errors. */
+  meta: string | null;
+  /** HTTP status for errors. Null for alerts. */
+  status: number | null;
+  /** True when the error happened after payment settled — the user was charged. Null for alerts. */
+  settled: boolean | null;
   created_at: Date;
 }
 
+/**
+ * Custom facts a handler attaches to its row, stored in the `attributes` column.
+ */
+export interface TelemetryAttributes {
+  /** Set `attributes[key]`, e.g. ('provider', 'apollo') or ('result_count', 12). Values are stringified. */
+  setAttribute: (key: string, value: string | number | boolean) => void;
+  /** Add tags, stored as `attributes['tag.<name>'] = 'true'` */
+  addTags: (...tags: string[]) => void;
+}
+
+/**
+ * RequestInit for ctx.fetch, plus how to label the call in provider_calls.
+ */
+export interface ProviderFetchInit extends RequestInit {
+  /** Provider name, e.g. 'apollo'. Default: the URL's host. */
+  provider?: string;
+  /** Cost in USD, or read it from the response headers. Don't read the body here. */
+  cost?: number | ((response: Response) => number | null | undefined);
+}
+
+/** fetch that records each call to provider_calls. */
+export type ProviderFetch = (
+  input: string | URL | Request,
+  init?: ProviderFetchInit,
+) => Promise<Response>;
+
 /**
  * Telemetry context passed to handler functions.
  */
-export interface TelemetryContext {
+export interface TelemetryContext extends TelemetryAttributes {
   /** Wallet address from X-Wallet-Address header (lowercased) */
   walletAddress: string | null;
   /** Client ID from X-Client-ID header */
   clientId: string | null;
   /** Session ID from X-Session-ID header */
   sessionId: string | null;
+  /** W3C trace id of this invocation, for correlating logs */
+  traceId: string;
+  /** W3C span id of this invocation */
+  spanId: string;
   /** Verified wallet address (auto-extracted from x402 payment, or set manually) */
   verifiedWallet: string | null;
   /** Manually set the verified wallet address (for SIWX, API-key, or other auth) */
   setVerifiedWallet: (address: string) => void;
+  /** fetch for upstream provider calls — each is recorded in provider_calls */
+  fetch: ProviderFetch;
 }
 
 /**
@@ -52,7 +226,10 @@ export interface RequestMeta {
   startTime: number;
   walletAddress: string | null;
   clientId: string | null;
+  clientType: string;
   sessionId: string | null;
+  /** From X-MCP-Host, or the initialize handshake for MCP calls */
+  mcpHost: string | null;
   verifiedWallet: string | null;
   route: string;
   method: string;
@@ -60,20 +237,213 @@ export interface RequestMeta {
   referer: string | null;
   requestContentType: string | null;
   requestHeadersJson: string | null;
+  identityViolations: string[];
+  payment: DecodedPayment | null;
+  /** Mutated by ctx.setAttribute() / ctx.addTags() */
+  attributes: Record<string, string>;
+  /** ctx.fetch calls whose response body is still unread */
+  pendingProviderCalls: Set<() => void>;
+  /** From traceparent / tracestate, or a new trace */
+  trace: TraceContext;
 }
 
 /**
- * ClickHouse connection config for initTelemetry.
+ * Row type for each table a sink can receive, keyed by table name.
  */
-export interface TelemetryConfig {
-  clickhouse: {
-    url: string;
-    database?: string;
-    username?: string;
-    password?: string;
+export interface TelemetryTables {
+  mcp_resource_invocations: McpResourceInvocation;
+  x402_payments: X402Payment;
+  provider_quota_events: ProviderQuotaRecord;
+  router_events: RouterEventRecord;
+  provider_calls: ProviderCallRecord;
+}
+
+export type TelemetryTable = keyof TelemetryTables;
+
+/**
+ * Destination for telemetry rows. ClickHouse is the default; see sinks.ts for
+ * the console, in-memory and fan-out sinks.
+ *
+ * `write` may reject — callers treat it as fire-and-forget and log failures.
+ */
+export interface TelemetrySink {
+  write<T extends TelemetryTable>(table: T, rows: TelemetryTables[T][]): Promise<void>;
+  /** Connectivity check used by `verify: true`. Resolves true when healthy. */
+  ping?(): Promise<boolean>;
+  /** Write out anything buffered. Resolves once the data has left the process. */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Limits for the batching buffer. A table's buffer is written out as soon as
+ * any limit is reached.
+ */
+export interface BatchConfig {
+  /** Max buffered rows per table. Default: 500. */
+  maxRows?: number;
+  /** Max buffered JSON bytes per table. Default: 1 MB. */
+  maxBytes?: number;
+  /** Max time the oldest buffered row waits, in ms. Default: 1000. */
+  maxAgeMs?: number;
+}
+
+/**
+ * On-disk spool for rows the sink failed to write. Node.js only.
+ */
+export interface SpoolConfig {
+  /** Directory for the NDJSON spool files. Created if missing. */
+  dir: string;
+  /** Max total spool size in bytes; failed rows beyond it are dropped. Default: 50 MB. */
+  maxBytes?: number;
+  /** First replay delay after a failure, in ms. Doubles per failure. Default: 5000. */
+  minBackoffMs?: number;
+  /** Upper bound for the replay delay, in ms. Default: 300000. */
+  maxBackoffMs?: number;
+}
+
+/**
+ * What to redact from headers and bodies before rows reach a sink.
+ * Redacted values are replaced with '[REDACTED]'.
+ */
+export interface RedactionConfig {
+  headers?: {
+    /** Extra headers to redact, on top of the defaults (Authorization, Cookie, PAYMENT-SIGNATURE, ...). */
+    deny?: string[];
+    /** If set, every header not listed is redacted. */
+    allow?: string[];
   };
+  /**
+   * Dotted paths into JSON bodies to mask. `*` matches any one key or array
+   * index, `**` any depth — e.g. 'password', 'user.ssn', 'items.*.token', '**.apiKey'.
+   */
+  bodyPaths?: string[];
+  /** Patterns scrubbed from bodies and header values: built-in 'emails' / 'keys', or your own. */
+  scrub?: Array<'emails' | 'keys' | RegExp>;
+}
+
+/**
+ * Passed to `onIdentityMismatch` when the wallet that paid differs from the
+ * claimed X-Wallet-Address.
+ */
+export interface IdentityMismatch {
+  requestId: string;
+  route: string;
+  /** X-Wallet-Address, lowercased */
+  claimedWallet: string;
+  /** Wallet proven by the payment, lowercased */
+  verifiedWallet: string;
+  clientId: string | null;
+}
+
+/**
+ * How a sampling rule thins out rows: 'drop' skips unsampled rows entirely;
+ * 'bodies' keeps every row but discards request/response bodies of unsampled ones.
+ */
+export type SampleMode = 'drop' | 'bodies';
+
+export interface SamplingRule {
+  /** Route glob — `*` matches within one path segment, `**` across segments (e.g. '/api/health', '/.well-known/**'). */
+  route: string;
+  /** Fraction of requests kept, 0–1. */
+  rate: number;
+  mode?: SampleMode;
+}
+
+/**
+ * Per-route sampling of invocation rows. The rate a row was kept at is
+ * written to `sample_rate`, so counts can be re-weighted with `sum(1 / sample_rate)`.
+ */
+export interface SamplingConfig {
+  /** Rate for routes no rule matches. Default: 1 (keep everything). */
+  rate?: number;
+  /** Per-route rates; the first matching rule wins. */
+  routes?: SamplingRule[];
+  /** Default mode for the top-level rate and rules without one. Default: 'drop'. */
+  mode?: SampleMode;
+  /** Always keep rows with status_code >= 400. Default: true. */
+  keepErrors?: boolean;
+  /** Always keep rows with a verified_wallet_address (paid calls). Default: true. */
+  keepPaid?: boolean;
+}
+
+/**
+ * ClickHouse connection config.
+ */
+export interface ClickhouseConfig {
+  url: string;
+  database?: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * OTLP/HTTP collector config for createOtlpSink.
+ */
+export interface OtlpConfig {
+  /** Collector endpoint, e.g. 'http://localhost:4318'. '/v1/traces' is appended unless present. */
+  url: string;
+  /** Extra request headers, e.g. a hosted collector's API key. */
+  headers?: Record<string, string>;
+  /** `service.name` of the exported spans. Default: each row's origin. */
+  serviceName?: string;
+  /** Ms before an export is aborted. Default: 5000. */
+  timeoutMs?: number;
+}
+
+/**
+ * Config for initTelemetry. Pass `clickhouse`, `sink`, or both
+ * (`sink` wins — wrap a ClickHouse sink in createFanOutSink to keep it).
+ */
+export interface TelemetryConfig {
+  clickhouse?: ClickhouseConfig;
+  /** Custom destination for rows. Replaces the ClickHouse sink built from `clickhouse`. */
+  sink?: TelemetrySink;
   /** Server's own origin URL (e.g., 'https://enrichx402.com'). Auto-detected from request if not set. */
   origin?: string;
-  /** If true, pings ClickHouse on init and logs the result. Never throws or blocks. */
+  /**
+   * Extra Client Registry entries (X-Client-ID → client_type label), merged
+   * over the defaults: poncho, x402scan-mcp, stablestudio-web, x402scan-web.
+   */
+  clients?: Record<string, string>;
+  /**
+   * Redaction applied to headers and bodies before rows reach a sink.
+   * Default: sensitive headers only (Authorization, Cookie, Set-Cookie,
+   * X-API-Key, PAYMENT-SIGNATURE, X-PAYMENT, SIGN-IN-WITH-X). `false` disables.
+   */
+  redact?: RedactionConfig | false;
+  /**
+   * Max bytes of each request/response body to store (default 256 KiB).
+   * Longer bodies are cut and flagged `*_body_truncated`; non-text bodies are
+   * stored as a size and SHA-256 digest only.
+   */
+  maxBodyBytes?: number;
+  /** Per-route sampling of invocation rows. Default: every row is kept. */
+  sample?: SamplingConfig;
+  /**
+   * Called when the wallet that paid differs from the claimed
+   * X-Wallet-Address (identity_confidence = 'verified-mismatch').
+   */
+  onIdentityMismatch?: (mismatch: IdentityMismatch) => void;
+  /**
+   * If true, pings ClickHouse on init and compares the live tables to the
+   * expected columns, logging missing, extra or mistyped columns.
+   * Never throws or blocks.
+   */
   verify?: boolean;
+  /**
+   * Buffer rows and write them in batches. `true` uses the default limits.
+   * Buffers are drained by flushTelemetry(), which withTelemetry and the
+   * route builder call in after().
+   */
+  batch?: boolean | BatchConfig;
+  /**
+   * Spool rows that fail to write to disk and replay them on startup and on
+   * later writes, so a ClickHouse outage doesn't lose data.
+   */
+  spool?: SpoolConfig;
+  /**
+   * If true, creates missing tables and applies pending migrations on init
+   * (requires `clickhouse`). Runs in the background and logs the result.
+   */
+  ensureSchema?: boolean;
 }
@@ -1,28 +1,68 @@
-import { defineConfig } from 'tsup';
+import { resolve } from 'path';
+import { defineConfig, type Options } from 'tsup';
 
-export default defineConfig({
-  entry: {
-    index: 'src/index.ts',
-    siwx: 'src/siwx.ts',
-    builder: 'src/route-builder.ts',
-    'router-plugin': 'src/router-plugin.ts',
+const external = [
+  'next',
+  '@clickhouse/client',
+  '@x402/core',
+  '@x402/next',
+  '@x402/extensions',
+  'zod',
+];
+
+// Node-only imports and their edge-safe replacements, swapped in for the
+// edge build of the core and server entrypoints (see the `edge-light` and
+// `worker` export conditions in package.json).
+const EDGE_MODULES: Record<string, string> = {
+  '@clickhouse/client': 'src/edge-clickhouse.ts',
+  crypto: 'src/edge-crypto.ts',
+  './spool': 'src/edge-spool.ts',
+};
+
+const edgeModules: NonNullable<Options['esbuildPlugins']>[number] = {
+  name: 'edge-modules',
+  setup(build) {
+    build.onResolve({ filter: /^(@clickhouse\/client|crypto|\.\/spool)$/ }, (args) => ({
+      path: resolve(EDGE_MODULES[args.path]),
+    }));
+  },
+};
+
+export default defineConfig([
+  {
+    entry: {
+      index: 'src/index.ts',
+      siwx: 'src/siwx.ts',
+      builder: 'src/route-builder.ts',
+      'router-plugin': 'src/router-plugin.ts',
+      server: 'src/server.ts',
+      bin: 'src/bin.ts',
+    },
+    format: ['cjs', 'esm'],
+    dts: true,
+    clean: true,
+    // splitting: true is REQUIRED for subpath exports.
+    // Without it, each entry point gets its own copy of the default
+    // runtime and initTelemetry() from ./index won't be visible to the
+    // wrappers imported from ./builder or ./siwx.
+    // Only works for ESM (CJS always inlines). Both consumers use ESM.
+    splitting: true,
+    sourcemap: true,
+    external,
+  },
+  {
+    // Edge runtimes load ESM only; types come from the Node build
+    entry: {
+      'edge/index': 'src/index.ts',
+      'edge/server': 'src/server.ts',
+    },
+    format: ['esm'],
+    splitting: true,
+    sourcemap: true,
+    platform: 'neutral',
+    // @clickhouse/client is swapped, not external (tsup externalizes peer deps by default)
+    external: external.filter((name) => !(name in EDGE_MODULES)),
+    noExternal: ['@clickhouse/client'],
+    esbuildPlugins: [edgeModules],
   },
-  format: ['cjs', 'esm'],
-  dts: true,
-  clean: true,
-  // splitting: true is REQUIRED for subpath exports.
-  // Without it, each entry point gets its own copy of the ClickHouse
-  // singleton and initTelemetry() from ./index won't be visible to
-  // insertInvocation() from ./builder or ./siwx.
-  // Only works for ESM (CJS always inlines). Both consumers use ESM.
-  splitting: true,
-  sourcemap: true,
-  external: [
-    'next',
-    '@clickhouse/client',
-    '@x402/core',
-    '@x402/next',
-    '@x402/extensions',
-    'zod',
-  ],
-});
+]);